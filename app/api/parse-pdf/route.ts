@@ -1,40 +1,129 @@
 import { NextRequest, NextResponse } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
+import { chunkPages, mergeChunks, splitChunk } from "@/lib/chunks";
+import type { TextChunk } from "@/lib/chunks";
+import { getExtractionProvider } from "@/lib/extraction";
+import type { ExtractionProvider } from "@/lib/extraction";
+import type { Transaction } from "@/lib/parser";
+import { findStatementTotals, reconcile, validateTransactions } from "@/lib/validate";
+import type { RejectedItem } from "@/lib/validate";
 
-const client = new Anthropic();
+// Response is a server-sent event stream:
+//   event: progress  data: { chunk, chunks, firstPage, lastPage, pages }
+//   event: result    data: { transactions, rejected, warnings }
+//   event: error     data: { error }
 
-export async function POST(req: NextRequest) {
-  const { text } = await req.json();
+interface ChunkResult {
+  transactions: Transaction[][];  // one list per request (halves count separately)
+  rejected: RejectedItem[];
+  warnings: string[];
+}
 
-  if (!text || typeof text !== "string") {
-    return NextResponse.json({ error: "No text provided" }, { status: 400 });
-  }
+function pageLabel(c: TextChunk): string {
+  return c.firstPage === c.lastPage ? `página ${c.firstPage}` : `páginas ${c.firstPage}–${c.lastPage}`;
+}
 
-  const message = await client.messages.create({
-    model: "claude-sonnet-4-6",
-    max_tokens: 4096,
-    messages: [
-      {
-        role: "user",
-        content:
-          `Extract all transactions from this bank statement. Return a JSON array only, no explanation. ` +
-          `Each item must have: date (YYYY-MM-DD), amount (number, negative for expenses), ` +
-          `description (merchant name only, no reference codes). Statement text: ${text}`,
-      },
-    ],
-  });
+/** Extract one chunk; halves it once more each time the model runs out of tokens */
+async function extractChunk(provider: ExtractionProvider, chunk: TextChunk, depth = 0): Promise<ChunkResult> {
+  const response = await provider.extract(chunk.text);
 
-  const block = message.content[0];
-  if (block.type !== "text") {
-    return NextResponse.json({ error: "Unexpected response from Claude" }, { status: 500 });
+  if (response.truncated) {
+    const halves = depth < 2 ? splitChunk(chunk) : null;
+    if (halves) {
+      const [a, b] = await Promise.all(halves.map(h => extractChunk(provider, h, depth + 1)));
+      return {
+        transactions: [...a.transactions, ...b.transactions],
+        rejected: [...a.rejected, ...b.rejected],
+        warnings: [...a.warnings, ...b.warnings],
+      };
+    }
+  }
+
+  const empty: ChunkResult = { transactions: [], rejected: [], warnings: [] };
+  if (!response.text) {
+    return { ...empty, warnings: [`Respuesta inesperada del modelo en ${pageLabel(chunk)}.`] };
   }
 
   // Extract JSON array from response (handles optional ```json ... ``` wrapping)
-  const match = block.text.match(/\[[\s\S]*\]/);
-  if (!match) {
-    return NextResponse.json({ error: "No JSON array in Claude response" }, { status: 500 });
+  const match = response.text.match(/\[[\s\S]*\]/);
+  let items: unknown = null;
+  try {
+    items = match ? JSON.parse(match[0]) : null;
+  } catch {
+    // reported below
+  }
+  if (!Array.isArray(items)) {
+    const why = response.truncated ? "respuesta truncada" : "JSON inválido";
+    return { ...empty, warnings: [`No se pudo leer ${pageLabel(chunk)} (${why}).`] };
+  }
+
+  const { transactions, rejected, repaired } = validateTransactions(items);
+  const warnings: string[] = [];
+  if (repaired) warnings.push(`Se corrigió el formato de ${repaired} transacciones en ${pageLabel(chunk)}.`);
+  return { transactions: [transactions], rejected, warnings };
+}
+
+export async function POST(req: NextRequest) {
+  const body = await req.json();
+
+  // `pages` from the client; a bare `text` is treated as a single page
+  const pages: string[] = Array.isArray(body.pages)
+    ? body.pages.filter((p: unknown): p is string => typeof p === "string")
+    : typeof body.text === "string" ? [body.text] : [];
+
+  if (!pages.join("").trim()) {
+    return NextResponse.json({ error: "No text provided" }, { status: 400 });
   }
 
-  const transactions = JSON.parse(match[0]);
-  return NextResponse.json({ transactions });
+  const provider = await getExtractionProvider();
+  const chunks = chunkPages(pages);
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+      try {
+        const perChunk: Transaction[][] = [];
+        const rejected: RejectedItem[] = [];
+        const warnings: string[] = [];
+
+        for (const [i, chunk] of chunks.entries()) {
+          send("progress", {
+            chunk: i + 1,
+            chunks: chunks.length,
+            firstPage: chunk.firstPage,
+            lastPage: chunk.lastPage,
+            pages: pages.length,
+          });
+          const r = await extractChunk(provider, chunk);
+          perChunk.push(...r.transactions);
+          rejected.push(...r.rejected);
+          warnings.push(...r.warnings);
+        }
+
+        const { transactions, duplicates } = mergeChunks(perChunk);
+        console.log(
+          `parse-pdf (${provider.name}): ${chunks.length} chunks, ` +
+          `${duplicates} duplicates dropped at chunk borders`
+        );
+
+        warnings.unshift(...reconcile(transactions, findStatementTotals(pages.join("\n"))));
+        if (rejected.length) warnings.push(`Se descartaron ${rejected.length} transacciones inválidas.`);
+
+        send("result", { transactions, rejected, warnings });
+      } catch (err) {
+        send("error", { error: err instanceof Error ? err.message : "Extraction failed" });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
 }
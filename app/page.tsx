@@ -1,24 +1,39 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
-import { supabase } from "@/lib/supabase";
 import { parseFile } from "@/lib/parser";
-import { categorizeTransactions } from "@/lib/categorizer";
-import type { Category } from "@/lib/categorizer";
-import { calculateAwards } from "@/lib/awards";
-import type { Award } from "@/lib/awards";
+import type { ParseProgress } from "@/lib/parser";
+import { mergeStatements } from "@/lib/merge";
+import type { DuplicatePair, SourceFile } from "@/lib/merge";
+import { BANK_PROFILES, GENERIC_PROFILE } from "@/lib/banks";
+import { ALL_CATEGORIES, categorizeTransactions, logCategorySummary } from "@/lib/categorizer";
+import type { CategorizedTransaction, CategoryRule } from "@/lib/categorizer";
+import { calculateAwards, getAwardDefinition } from "@/lib/awards";
+import type { Award, AwardContext } from "@/lib/awards";
+import { applyEdit, effectiveTransactions, recategorizeRows, toReviewRows } from "@/lib/review";
+import type { ReviewEdit, ReviewRow } from "@/lib/review";
+import { deleteRule, loadMerchantMemory, loadRules, rememberMerchant, saveRule } from "@/lib/rules";
+import { merchantKey } from "@/lib/merchants";
+import type { MerchantMemory } from "@/lib/merchants";
+import { CADENCE_LABELS, detectSubscriptions, toChargeRecords } from "@/lib/recurring";
+import type { ChargeRecord, Subscription } from "@/lib/recurring";
+import { detectMoneyMoves, isCardStatement } from "@/lib/transfers";
+import { pairRefunds } from "@/lib/refunds";
+import { detectMonthlyIncome } from "@/lib/income";
+import { loadHistory, saveResults } from "@/lib/history";
+import type { HistoryRow, SavedResult } from "@/lib/history";
+import { PAY_CADENCE_LABELS, detectPaySchedule, payCycles } from "@/lib/payday";
+import type { PayCycle, PaySchedule } from "@/lib/payday";
+import {
+  DEFAULT_PERIOD, PERIOD_MODE_LABELS, formatPeriod, isNextPeriod, shortDate, shortPeriod, splitByPeriod,
+} from "@/lib/periods";
+import type { Period, PeriodMode, PeriodSettings } from "@/lib/periods";
+import ReviewTable from "@/components/ReviewTable";
+import RulesEditor from "@/components/RulesEditor";
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
-const MES_ES = [
-  "enero","febrero","marzo","abril","mayo","junio",
-  "julio","agosto","septiembre","octubre","noviembre","diciembre",
-];
-const MES_SHORT = [
-  "ene","feb","mar","abr","may","jun","jul","ago","sep","oct","nov","dic",
-];
-
 function getOrCreateSessionId(): string {
   const name = "session_id";
   const match = document.cookie.match(new RegExp("(?:^|; )" + name + "=([^;]*)"));
@@ -30,39 +45,12 @@ function getOrCreateSessionId(): string {
   return uuid;
 }
 
-function getMostCommonMonth(txns: { date: string }[]): string {
-  const counts = new Map<string, number>();
-  for (const t of txns) {
-    const ym = t.date.slice(0, 7);
-    counts.set(ym, (counts.get(ym) ?? 0) + 1);
-  }
-  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0]
-    ?? new Date().toISOString().slice(0, 7);
-}
-
 function getTopCategory(txns: { category: string }[]): string {
   const counts = new Map<string, number>();
   for (const t of txns) counts.set(t.category, (counts.get(t.category) ?? 0) + 1);
   return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? "other";
 }
 
-function formatMonth(ym: string): string {
-  const [y, m] = ym.split("-");
-  return `${MES_ES[parseInt(m) - 1]} ${y}`;
-}
-
-function shortMonth(ym: string): string {
-  const [y, m] = ym.split("-");
-  return `${MES_SHORT[parseInt(m) - 1]} ${y.slice(2)}`;
-}
-
-const ALL_CATEGORIES: Category[] = [
-  "convenience_store", "rideshare", "food_delivery", "restaurant_cafe",
-  "supermarket", "cash_withdrawal", "subscription_gym", "ecommerce",
-  "pharmacy_health", "spei_transfer", "bank_fee", "gas_transport",
-  "education", "other",
-];
-
 function getCategoryTotals(txns: { category: string; amount: number }[]): Record<string, number> {
   const totals: Record<string, number> = Object.fromEntries(ALL_CATEGORIES.map(c => [c, 0]));
   for (const t of txns) {
@@ -71,32 +59,7 @@ function getCategoryTotals(txns: { category: string; amount: number }[]): Record
   return totals;
 }
 
-// Award metadata for trends callouts (id → display info)
-const AWARD_META: Record<string, { emoji: string; title: string }> = {
-  indice_godin:             { emoji: "🏪", title: "Índice Godín" },
-  accionista_uber:          { emoji: "🚗", title: "Accionista de Uber" },
-  banco_central:            { emoji: "🏦", title: "Banco Central" },
-  hoyo_negro_efectivo:      { emoji: "💸", title: "Hoyo Negro de Efectivo" },
-  socio_honorario_smartfit: { emoji: "🏋️", title: "Socio Honorario SmartFit" },
-  sindrome_me_lo_merezco:   { emoji: "🛍️", title: "Síndrome 'Me Lo Merezco'" },
-  martir_comisiones:        { emoji: "😤", title: "Mártir de las Comisiones" },
-  sobreviviente_extremo:    { emoji: "🧗", title: "Sobreviviente Extremo" },
-};
-
-// Returns true if monthB is exactly one calendar month after monthA
-function isNextMonth(a: string, b: string): boolean {
-  const [ay, am] = a.split("-").map(Number);
-  const [by, bm] = b.split("-").map(Number);
-  return (am < 12 && bm === am + 1 && by === ay) || (am === 12 && bm === 1 && by === ay + 1);
-}
-
-interface HistoryRow {
-  month: string;
-  total_spent: number;
-  awards_won: string[];
-}
-
-// Finds award streaks that include the most recent month (ongoing streaks only)
+// Finds award streaks that include the most recent period (ongoing streaks only)
 function findCurrentStreaks(history: HistoryRow[]): { awardId: string; count: number }[] {
   if (history.length < 2) return [];
   const allIds = [...new Set(history.flatMap(r => r.awards_won ?? []))];
@@ -107,7 +70,7 @@ function findCurrentStreaks(history: HistoryRow[]): { awardId: string; count: nu
     for (let i = history.length - 1; i >= 0; i--) {
       const won = history[i].awards_won?.includes(id);
       if (!won) break;
-      if (i < history.length - 1 && !isNextMonth(history[i].month, history[i + 1].month)) break;
+      if (i < history.length - 1 && !isNextPeriod(history[i].period, history[i + 1].period)) break;
       count++;
     }
     if (count >= 2) streaks.push({ awardId: id, count });
@@ -116,10 +79,10 @@ function findCurrentStreaks(history: HistoryRow[]): { awardId: string; count: nu
   return streaks.sort((a, b) => b.count - a.count);
 }
 
-function buildWhatsAppUrl(awards: Award[], month: string): string {
+function buildWhatsAppUrl(awards: Award[], period: Period): string {
   const top = awards.slice(0, 4);
   const lines = [
-    `🏆 *Mis Premios de la Quincena — ${formatMonth(month)}*`,
+    `🏆 *Mis Premios de la Quincena — ${formatPeriod(period.key)}*`,
     "",
     ...top.flatMap(a => [`${a.emoji} *${a.title}*`, a.roast_text, ""]),
     "¿Y tú cuántos ganaste? 👀",
@@ -127,73 +90,242 @@ function buildWhatsAppUrl(awards: Award[], month: string): string {
   return `https://wa.me/?text=${encodeURIComponent(lines.join("\n"))}`;
 }
 
+interface PeriodAwards {
+  period: Period;
+  transactions: CategorizedTransaction[];
+  awards: Award[];
+  saved: SavedResult;  // toSavedResult(), what finishReview stores
+}
+
+/**
+ * What gets saved for a period, and what later periods compare against.
+ * `known` are charge records saved for earlier periods.
+ */
+function toSavedResult(
+  { period, transactions, awards }: Omit<PeriodAwards, "saved">,
+  known: ChargeRecord[]
+): SavedResult {
+  return {
+    period,
+    total_spent: transactions.filter(t => t.amount < 0).reduce((s, t) => s + Math.abs(t.amount), 0),
+    top_category: getTopCategory(transactions),
+    awards_won: awards.map(a => a.id),
+    transaction_count: transactions.length,
+    category_totals: getCategoryTotals(transactions),
+    charges: toChargeRecords(transactions, known),
+  };
+}
+
+/**
+ * One award set per period. The balance rolls forward through every row that
+ * isn't excluded, at face value; own-account moves and refunded purchases
+ * don't count as spending but they still move the balance. Each period also
+ * sees the ones before it in this upload as history; saved rows for the same
+ * periods are left out so a re-upload doesn't compare against itself.
+ */
+function awardsByPeriod(
+  rows: ReviewRow[],
+  settings: PeriodSettings,
+  history: HistoryRow[],
+  ctx: AwardContext
+): PeriodAwards[] {
+  const txns = effectiveTransactions(rows);
+  const paydays = ctx.paySchedule?.deposits.map(d => d.date) ?? [];
+  const groups = splitByPeriod(txns, settings, paydays);
+  const keys = new Set(groups.map(g => g.period.key));
+  const past: HistoryRow[] = history.filter(h => !keys.has(h.period.key));
+
+  const kept = rows.filter(r => !r.excluded);
+
+  return groups.map(({ period, transactions }) => {
+    const before = kept.filter(r => r.date < period.start).reduce((s, r) => s + r.amount, 0);
+    const openingBalance = ctx.openingBalance == null ? null : ctx.openingBalance + before;
+    const movements = kept.filter(r => r.date >= period.start && r.date <= period.end);
+    const awards = calculateAwards(transactions, { ...ctx, openingBalance, movements, period, history: [...past] });
+    const saved = toSavedResult({ period, transactions, awards }, past.flatMap(h => h.charges ?? []));
+    past.push(saved);
+    return { period, transactions, awards, saved };
+  });
+}
+
 // ─── Component ────────────────────────────────────────────────────────────────
 
+interface Review {
+  rows: ReviewRow[];
+  sources: SourceFile[];
+  duplicates: DuplicatePair[];
+}
+
 interface Results {
-  awards: Award[];
-  month: string;
+  periods: PeriodAwards[];
+  paySchedule: PaySchedule | null;
+  cycles: PayCycle[];
   history: HistoryRow[];
+  subscriptions: Subscription[];
+  sources: SourceFile[];
+  duplicates: DuplicatePair[];
 }
 
 export default function Home() {
   const inputRef = useRef<HTMLInputElement>(null);
+  const [review, setReview] = useState<Review | null>(null);
   const [results, setResults] = useState<Results | null>(null);
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [memory, setMemory] = useState<MerchantMemory>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [fileStep, setFileStep] = useState<{ index: number; count: number; name: string } | null>(null);
+  const [dragging, setDragging] = useState(false);
+  // "" = auto-detect; otherwise a bank profile id forced by the user
+  const [bankProfile, setBankProfile] = useState("");
+  // Monthly salary typed by the user; "" = use the income detected in the statement
+  const [salary, setSalary] = useState("");
+  const [periodSettings, setPeriodSettings] = useState<PeriodSettings>(DEFAULT_PERIOD);
+  // Saved periods, loaded up front so the review preview can compare against them
+  const [history, setHistory] = useState<HistoryRow[]>([]);
 
   useEffect(() => {
-    console.log("session_id:", getOrCreateSessionId());
+    const sessionId = getOrCreateSessionId();
+    console.log("session_id:", sessionId);
+    loadRules(sessionId).then(setRules);
+    loadMerchantMemory(sessionId).then(setMemory);
+    loadHistory(sessionId).then(setHistory);
   }, []);
 
-  const handleFile = async (file: File) => {
+  const handleFiles = async (files: File[]) => {
     setLoading(true);
     setError(null);
     try {
-      const txns = await parseFile(file);
+      const sources: SourceFile[] = [];
+      for (const [index, file] of files.entries()) {
+        setFileStep({ index: index + 1, count: files.length, name: file.name });
+        setProgress(null);
+        const result = await parseFile(file, {
+          bankProfile: bankProfile || undefined,
+          onProgress: setProgress,
+        });
+        sources.push({ name: file.name, result });
+      }
+
+      const { transactions: txns, duplicates } = mergeStatements(sources);
       if (!txns.length)
-        throw new Error("No se encontraron transacciones. Verifica el formato del archivo.");
-
-      const categorized = categorizeTransactions(txns);
-      const awards = calculateAwards(categorized);
-      const month = getMostCommonMonth(txns);
-      const sessionId = getOrCreateSessionId();
-      const total_spent = txns
-        .filter(t => t.amount < 0)
-        .reduce((s, t) => s + Math.abs(t.amount), 0);
-
-      console.log(`🏆 ${awards.length} premios:`, awards.map(a => a.id));
-
-      // Await upsert so the current month is included when we query history next
-      const { error: upsertErr } = await supabase
-        .from("quincena_results")
-        .upsert(
-          {
-            session_id: sessionId,
-            month,
-            total_spent,
-            top_category: getTopCategory(categorized),
-            awards_won: awards.map(a => a.id),
-            transaction_count: categorized.length,
-            category_totals: getCategoryTotals(categorized),
-          },
-          { onConflict: "session_id,month" }
+        throw new Error(
+          sources.flatMap(s => s.result.warnings)[0] ??
+            "No se encontraron transacciones. Verifica el formato del archivo."
         );
+      if (duplicates.length) console.log(`🔁 ${duplicates.length} duplicados entre archivos:`, duplicates);
+
+      const categorized = categorizeTransactions(txns, { rules, memory });
+      logCategorySummary(categorized);
+      const moves = detectMoneyMoves(categorized);
+      setReview({
+        rows: toReviewRows(categorized, moves, pairRefunds(categorized, moves)),
+        sources,
+        duplicates,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error al procesar el archivo.");
+    } finally {
+      setLoading(false);
+      setFileStep(null);
+    }
+  };
 
-      if (upsertErr) console.error("Supabase upsert error:", upsertErr.message);
-      else console.log(`✅ Guardado en Supabase — ${month}`);
+  const editRow = (id: number, edit: ReviewEdit) => {
+    if (!review) return;
+    let rows = review.rows.map(row => (row.id === id ? applyEdit(row, edit, { rules, memory }) : row));
+
+    // A hand-picked category is remembered for the merchant, here and in future uploads
+    const edited = review.rows.find(r => r.id === id);
+    const key = edited ? merchantKey(edited.description) : "";
+    if (edit.category && key) {
+      const next = { ...memory, [key]: edit.category };
+      setMemory(next);
+      rememberMerchant(getOrCreateSessionId(), key, edit.category);
+      rows = recategorizeRows(rows, { rules, memory: next });
+    }
+    setReview({ ...review, rows });
+  };
 
-      // Query full history for this session
-      const { data: historyData } = await supabase
-        .from("quincena_results")
-        .select("month, total_spent, awards_won")
-        .eq("session_id", sessionId)
-        .order("month", { ascending: true });
+  const updateRules = (next: CategoryRule[]) => {
+    setRules(next);
+    setReview(r => r && { ...r, rows: recategorizeRows(r.rows, { rules: next, memory }) });
+  };
 
-      const history = (historyData ?? []) as HistoryRow[];
+  const addRule = async (rule: CategoryRule) => {
+    const saved = await saveRule(getOrCreateSessionId(), rule);
+    // Apply it for this upload even if saving failed; it just won't carry over
+    if (!saved) setError("No se pudo guardar la regla; solo se aplicará a este archivo.");
+    updateRules([...rules, saved ?? rule]);
+  };
 
-      setResults({ awards, month, history });
+  const removeRule = async (rule: CategoryRule) => {
+    if (rule.id) await deleteRule(getOrCreateSessionId(), rule.id);
+    updateRules(rules.filter(r => r !== rule));
+  };
+
+  // Live preview while reviewing; recomputed from the same rows finishReview saves
+  const effective = useMemo(() => (review ? effectiveTransactions(review.rows) : []), [review]);
+  const detectedIncome = useMemo(() => detectMonthlyIncome(effective), [effective]);
+  const paySchedule = useMemo(() => detectPaySchedule(effective), [effective]);
+  const income = parseFloat(salary) > 0 ? parseFloat(salary) : detectedIncome;
+  // Only meaningful for one bank account: two statements of the same account
+  // would count it twice, and a card's "saldo anterior" is debt, not cash
+  const openingBalance = useMemo(() => {
+    const sources = review?.sources ?? [];
+    if (sources.length !== 1) return null;
+    const { balances, transactions } = sources[0].result;
+    return balances.opening === undefined || isCardStatement(transactions) ? null : balances.opening;
+  }, [review]);
+  const previewSets = useMemo(
+    () => (review ? awardsByPeriod(review.rows, periodSettings, history, { income, openingBalance, paySchedule }) : []),
+    [review, periodSettings, history, income, openingBalance, paySchedule]
+  );
+
+  const finishReview = async () => {
+    if (!review) return;
+    const { rows, sources, duplicates } = review;
+    const categorized = effectiveTransactions(rows);
+    if (!categorized.length) {
+      setError("Excluiste todos los movimientos.");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const periods = awardsByPeriod(rows, periodSettings, history, { income, openingBalance, paySchedule });
+      const sessionId = getOrCreateSessionId();
+      for (const { period, awards } of periods) {
+        console.log(`🏆 ${period.key}: ${awards.length} premios:`, awards.map(a => a.id));
+      }
+
+      // Await upsert so the current periods are included when we query history next
+      const keys = new Set(periods.map(p => p.period.key));
+      if (await saveResults(sessionId, periods.map(p => p.saved))) {
+        console.log(`✅ Guardado en Supabase — ${[...keys].join(", ")}`);
+      }
+
+      const updated = await loadHistory(sessionId);
+      setHistory(updated);
+      const subscriptions = detectSubscriptions(
+        categorized,
+        updated.filter(r => !keys.has(r.period.key)).flatMap(r => r.charges ?? [])
+      );
+
+      setResults({
+        periods,
+        paySchedule,
+        cycles: payCycles(categorized, paySchedule),
+        history: updated,
+        subscriptions,
+        sources,
+        duplicates,
+      });
+      setReview(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Error al procesar el archivo.");
+      setError(err instanceof Error ? err.message : "Error al guardar los resultados.");
     } finally {
       setLoading(false);
     }
@@ -206,7 +338,129 @@ export default function Home() {
         <div className="text-center">
           <div className="text-6xl animate-bounce mb-4">🔍</div>
           <p className="text-xl font-bold text-amber-900">Analizando tus gastos...</p>
-          <p className="text-amber-700 mt-2 text-sm">Contando tus Oxxos, un momento</p>
+          {fileStep && fileStep.count > 1 && (
+            <p className="text-amber-800 mt-2 text-sm">
+              Archivo {fileStep.index} de {fileStep.count}: {fileStep.name}
+            </p>
+          )}
+          <p className="text-amber-700 mt-2 text-sm">
+            {progress
+              ? `Leyendo página ${progress.page} de ${progress.pages}`
+              : "Contando tus Oxxos, un momento"}
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  // ── Review ───────────────────────────────────────────────────────────────────
+  if (review) {
+    const counted = effective.length;
+    const moves = review.rows.filter(r => r.move && r.internal).length;
+    return (
+      <main className="min-h-screen bg-amber-50 px-4 py-10">
+        <div className="max-w-md mx-auto flex flex-col gap-5">
+
+          <div className="text-center">
+            <h1 className="text-3xl font-extrabold text-amber-900">Revisa tus movimientos 🔎</h1>
+            <p className="text-amber-700 mt-1 text-sm">
+              Corrige lo que leímos mal antes de repartir premios.
+              {" "}{counted} de {review.rows.length} movimientos cuentan.
+            </p>
+            {moves > 0 && (
+              <p className="text-amber-700 text-xs mt-1">
+                {moves} son traspasos entre tus cuentas, pagos de tarjeta o reversos y no cuentan como gasto.
+              </p>
+            )}
+          </div>
+
+          <div className="bg-white rounded-2xl shadow p-4 border border-amber-100 text-sm">
+            <p className="font-bold text-amber-900 mb-2">Premios hasta ahora</p>
+            {previewSets.every(p => p.awards.length === 0) ? (
+              <p className="text-amber-700">Ninguno… por ahora 👀</p>
+            ) : (
+              previewSets.map(({ period, awards }) => (
+                <div key={period.key} className="mt-2 first:mt-0">
+                  {previewSets.length > 1 && (
+                    <p className="text-xs text-amber-700 mb-1 capitalize">{formatPeriod(period.key)}</p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {awards.length === 0 && <span className="text-amber-700">Ninguno</span>}
+                    {awards.map(a => (
+                      <span key={a.id} className="bg-amber-50 rounded-full px-3 py-1 text-amber-900">
+                        {a.emoji} {a.title}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-3 text-sm text-amber-800">
+            <span>Periodo</span>
+            <select
+              value={periodSettings.mode}
+              onChange={e => setPeriodSettings({ ...periodSettings, mode: e.target.value as PeriodMode })}
+              className="flex-1 bg-white border border-amber-200 rounded-xl px-3 py-2 text-amber-900"
+            >
+              {(Object.keys(PERIOD_MODE_LABELS) as PeriodMode[]).map(mode => (
+                <option key={mode} value={mode}>{PERIOD_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            {periodSettings.mode === "cutoff" && (
+              <input
+                type="number"
+                min="1"
+                max="31"
+                value={periodSettings.cutoffDay ?? ""}
+                onChange={e => setPeriodSettings({ ...periodSettings, cutoffDay: parseInt(e.target.value) || undefined })}
+                placeholder="Día"
+                aria-label="Día de corte"
+                className="w-20 bg-white border border-amber-200 rounded-xl px-3 py-2 text-amber-900"
+              />
+            )}
+          </div>
+
+          <label className="flex items-center justify-between gap-3 text-sm text-amber-800">
+            <span>Ingreso mensual</span>
+            <input
+              type="number"
+              min="0"
+              value={salary}
+              onChange={e => setSalary(e.target.value)}
+              placeholder={detectedIncome ? `Detectado: $${detectedIncome.toLocaleString("es-MX")}` : "Ej. 25000"}
+              className="flex-1 bg-white border border-amber-200 rounded-xl px-3 py-2 text-amber-900"
+            />
+          </label>
+          <p className="text-xs text-amber-700 -mt-3">
+            Los montos que hacen ganar un premio se ajustan a lo que ganas.
+          </p>
+
+          {error && (
+            <p className="w-full text-red-700 bg-red-50 rounded-xl px-4 py-3 text-sm">
+              ⚠️ {error}
+            </p>
+          )}
+
+          <RulesEditor rules={rules} onAdd={addRule} onDelete={removeRule} />
+
+          <ReviewTable rows={review.rows} onEdit={editRow} />
+
+          <button
+            onClick={finishReview}
+            className="w-full bg-amber-500 hover:bg-amber-600 active:bg-amber-700 text-white font-bold text-lg py-4 px-6 rounded-2xl shadow-md transition-colors sticky bottom-4"
+          >
+            Ver mis premios 🏆
+          </button>
+
+          <button
+            onClick={() => { setReview(null); setError(null); }}
+            className="text-amber-700 underline text-sm text-center"
+          >
+            Cancelar
+          </button>
+
         </div>
       </main>
     );
@@ -214,12 +468,12 @@ export default function Home() {
 
   // ── Results ──────────────────────────────────────────────────────────────────
   if (results) {
-    const { awards, month, history } = results;
-    const whatsappUrl = awards.length > 0 ? buildWhatsAppUrl(awards, month) : null;
+    const { periods, paySchedule, cycles, history, subscriptions, sources, duplicates } = results;
+    const multi = sources.length > 1;
     const hasHistory = history.length >= 2;
     const streaks = hasHistory ? findCurrentStreaks(history) : [];
     const chartData = history.map(r => ({
-      label: shortMonth(r.month),
+      label: shortPeriod(r.period.key),
       gastado: Math.round(r.total_spent),
     }));
 
@@ -229,40 +483,149 @@ export default function Home() {
 
           <div className="text-center">
             <h1 className="text-3xl font-extrabold text-amber-900">Tus Premios 🏆</h1>
-            <p className="text-amber-600 mt-1 capitalize">{formatMonth(month)}</p>
+            {periods.length === 1 && (
+              <p className="text-amber-600 mt-1 capitalize">{formatPeriod(periods[0].period.key)}</p>
+            )}
           </div>
 
-          {awards.length === 0 ? (
-            <div className="bg-white rounded-2xl p-6 text-center border border-amber-100 shadow">
-              <div className="text-5xl mb-3">👏</div>
-              <p className="font-bold text-amber-900 text-lg">¡Mes limpio!</p>
-              <p className="text-amber-700 text-sm mt-2">
-                No ganaste ningún premio esta quincena.
-                O eres muy responsable, o no pusiste tu estado de cuenta completo.
+          {periods.map(({ period, awards }) => (
+            <section key={period.key} className="flex flex-col gap-5">
+              {periods.length > 1 && (
+                <h2 className="text-xl font-bold text-amber-900 text-center capitalize">
+                  {formatPeriod(period.key)}
+                </h2>
+              )}
+
+              {awards.length === 0 ? (
+                <div className="bg-white rounded-2xl p-6 text-center border border-amber-100 shadow">
+                  <div className="text-5xl mb-3">👏</div>
+                  <p className="font-bold text-amber-900 text-lg">¡Periodo limpio!</p>
+                  <p className="text-amber-700 text-sm mt-2">
+                    No ganaste ningún premio en este periodo.
+                    O eres muy responsable, o no pusiste tu estado de cuenta completo.
+                  </p>
+                </div>
+              ) : (
+                awards.slice(0, 4).map(award => (
+                  <div key={award.id} className="bg-white rounded-2xl shadow p-5 border border-amber-100">
+                    <div className="flex items-center gap-3 mb-2">
+                      <span className="text-4xl leading-none">{award.emoji}</span>
+                      <h3 className="text-lg font-bold text-amber-900 leading-tight">{award.title}</h3>
+                    </div>
+                    <p className="text-sm text-gray-700 leading-relaxed">{award.roast_text}</p>
+                  </div>
+                ))
+              )}
+
+              {awards.length > 0 && (
+                <a
+                  href={buildWhatsAppUrl(awards, period)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="w-full bg-green-500 hover:bg-green-600 active:bg-green-700 text-white font-bold text-lg py-4 px-6 rounded-2xl shadow-md transition-colors text-center block"
+                >
+                  📲 Compartir en WhatsApp
+                </a>
+              )}
+            </section>
+          ))}
+
+          {/* ── Runway ── */}
+          {cycles.length > 0 && paySchedule && (
+            <div className="bg-white rounded-2xl shadow p-5 border border-amber-100">
+              <h2 className="text-lg font-bold text-amber-900">¿Cuánto te duró el dinero? ⏳</h2>
+              <p className="text-sm text-amber-700 mb-3">
+                Te pagan {PAY_CADENCE_LABELS[paySchedule.cadence]} · {paySchedule.description}
               </p>
+              <ul className="flex flex-col gap-2 text-sm">
+                {cycles.map(c => (
+                  <li key={c.payday} className="flex items-start justify-between gap-3">
+                    <span className="text-gray-800">
+                      Pago del {shortDate(c.payday)}
+                      <span className="block text-xs text-gray-500">
+                        ${Math.round(c.amount).toLocaleString("es-MX")}
+                        {!c.complete && " · el estado de cuenta termina antes del siguiente pago"}
+                      </span>
+                    </span>
+                    <span
+                      className={`font-bold whitespace-nowrap ${c.ranOut ? "text-red-700" : "text-green-700"}`}
+                    >
+                      {c.ranOut ? `${c.lasted} de ${c.days} días` : c.complete ? "Alcanzó 💪" : `${c.lasted}+ días`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
             </div>
-          ) : (
-            awards.slice(0, 4).map(award => (
-              <div key={award.id} className="bg-white rounded-2xl shadow p-5 border border-amber-100">
-                <div className="flex items-center gap-3 mb-2">
-                  <span className="text-4xl leading-none">{award.emoji}</span>
-                  <h3 className="text-lg font-bold text-amber-900 leading-tight">{award.title}</h3>
-                </div>
-                <p className="text-sm text-gray-700 leading-relaxed">{award.roast_text}</p>
-              </div>
-            ))
           )}
 
-          {whatsappUrl && (
-            <a
-              href={whatsappUrl}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="w-full bg-green-500 hover:bg-green-600 active:bg-green-700 text-white font-bold text-lg py-4 px-6 rounded-2xl shadow-md transition-colors text-center block"
-            >
-              📲 Compartir en WhatsApp
-            </a>
+          {/* ── Subscriptions ── */}
+          {subscriptions.length > 0 && (
+            <div className="bg-white rounded-2xl shadow p-5 border border-amber-100">
+              <h2 className="text-lg font-bold text-amber-900">Suscripciones 🔁</h2>
+              <p className="text-sm text-amber-700 mb-3">
+                ~${Math.round(subscriptions.reduce((s, x) => s + x.monthlyCost, 0)).toLocaleString("es-MX")} al mes
+              </p>
+              <ul className="flex flex-col gap-2 text-sm">
+                {subscriptions.map(sub => (
+                  <li key={sub.merchant} className="flex items-start justify-between gap-3">
+                    <span className="text-gray-800">
+                      {sub.description}
+                      <span className="block text-xs text-gray-500">
+                        {CADENCE_LABELS[sub.cadence]} · ${sub.amount.toLocaleString("es-MX")}
+                        {sub.isNew && <span className="ml-2 text-green-700 font-bold">Nueva</span>}
+                        {sub.previousAmount !== undefined && (
+                          <span className="ml-2 text-red-700 font-bold">
+                            Antes ${sub.previousAmount.toLocaleString("es-MX")}
+                          </span>
+                        )}
+                      </span>
+                    </span>
+                    <span className="font-bold text-amber-900 whitespace-nowrap">
+                      ${Math.round(sub.monthlyCost).toLocaleString("es-MX")}/mes
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* ── Parse report ── */}
+          {multi && (
+            <p className="text-sm text-amber-800 text-center">
+              {sources.length} archivos combinados
+              {duplicates.length > 0 && ` · ${duplicates.length} movimientos duplicados omitidos`}
+            </p>
           )}
+          {sources.map(({ name, result: report }) => {
+            const flagged = report.diagnostics.filter(d => d.warnings.length).length;
+            if (!report.skipped.length && !flagged && !report.warnings.length) return null;
+            return (
+              <details key={name} className="bg-white rounded-2xl shadow p-5 border border-amber-100 text-sm">
+                <summary className="font-bold text-amber-900 cursor-pointer">
+                  ⚠️ {multi && `${name}: `}{report.skipped.length} filas ignoradas
+                  {flagged > 0 && ` · ${flagged} con advertencias`}
+                </summary>
+                <ul className="mt-3 flex flex-col gap-2 text-gray-700">
+                  {report.warnings.map((w, i) => (
+                    <li key={`f${i}`} className="text-red-700">{w}</li>
+                  ))}
+                  {report.skipped.map((r, i) => (
+                    <li key={`s${i}`}>
+                      {r.line !== undefined && <strong>Línea {r.line}: </strong>}
+                      {r.detail}
+                      <span className="block text-xs text-gray-500 truncate">{r.raw}</span>
+                    </li>
+                  ))}
+                  {report.diagnostics.map((d, i) => d.warnings.length > 0 && (
+                    <li key={`w${i}`}>
+                      <strong>{d.line ? `Línea ${d.line}` : report.transactions[i].date}:</strong>{" "}
+                      {report.transactions[i].description || "—"} · {d.warnings.join(", ")}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            );
+          })}
 
           {/* ── Trends ── */}
           <div className="bg-white rounded-2xl shadow p-5 border border-amber-100">
@@ -298,7 +661,7 @@ export default function Home() {
                 {streaks.length > 0 && (
                   <div className="mt-4 flex flex-col gap-2">
                     {streaks.map(s => {
-                      const meta = AWARD_META[s.awardId];
+                      const meta = getAwardDefinition(s.awardId);
                       if (!meta) return null;
                       return (
                         <p
@@ -306,7 +669,7 @@ export default function Home() {
                           className="text-sm bg-amber-50 rounded-xl px-4 py-2 text-amber-900"
                         >
                           {meta.emoji}{" "}
-                          <strong>{s.count} meses seguidos</strong> como {meta.title} 👀
+                          <strong>{s.count} periodos seguidos</strong> como {meta.title} 👀
                         </p>
                       );
                     })}
@@ -353,25 +716,48 @@ export default function Home() {
 
         <button
           onClick={() => inputRef.current?.click()}
-          className="w-full bg-amber-500 hover:bg-amber-600 active:bg-amber-700 text-white font-bold text-lg py-4 px-6 rounded-2xl shadow-md transition-colors"
+          onDragOver={e => { e.preventDefault(); setDragging(true); }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={async e => {
+            e.preventDefault();
+            setDragging(false);
+            const files = Array.from(e.dataTransfer.files);
+            if (files.length) await handleFiles(files);
+          }}
+          className={`w-full bg-amber-500 hover:bg-amber-600 active:bg-amber-700 text-white font-bold text-lg py-4 px-6 rounded-2xl shadow-md transition-colors ${dragging ? "ring-4 ring-amber-300" : ""}`}
         >
-          Subir estado de cuenta (.csv o .pdf)
+          Subir estados de cuenta (.csv, .xlsx, .pdf…)
+          <span className="block text-sm font-normal opacity-90">Puedes elegir o arrastrar varios a la vez</span>
         </button>
+        <label className="w-full flex items-center justify-between gap-3 text-sm text-amber-800">
+          <span>Banco (CSV o Excel)</span>
+          <select
+            value={bankProfile}
+            onChange={e => setBankProfile(e.target.value)}
+            className="flex-1 bg-white border border-amber-200 rounded-xl px-3 py-2 text-amber-900"
+          >
+            <option value="">Detectar automáticamente</option>
+            {[...BANK_PROFILES, GENERIC_PROFILE].map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </label>
         <input
           ref={inputRef}
           type="file"
-          accept=".csv,.pdf"
+          accept=".csv,.xlsx,.xls,.pdf,.ofx,.qfx,.xml,.sta,.mt940,.940"
           className="hidden"
+          multiple
           onChange={async (e) => {
-            const file = e.target.files?.[0];
-            if (!file) return;
-            await handleFile(file);
+            const files = Array.from(e.target.files ?? []);
+            if (!files.length) return;
+            await handleFiles(files);
             e.target.value = "";
           }}
         />
 
         <p className="text-sm text-amber-700 bg-amber-100 rounded-xl px-4 py-3 leading-relaxed">
-          🔒 Tu archivo se procesa con IA — nunca guardamos tus transacciones.
+          🔒 Tu archivo se procesa con IA — no guardamos tus movimientos, solo totales y los cargos que se repiten, para detectar suscripciones.
         </p>
 
       </div>
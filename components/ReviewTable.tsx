@@ -0,0 +1,111 @@
+"use client";
+
+import { ALL_CATEGORIES, CATEGORY_LABELS, describeExplanation } from "@/lib/categorizer";
+import type { Category } from "@/lib/categorizer";
+import { refundTotals } from "@/lib/review";
+import type { ReviewEdit, ReviewRow } from "@/lib/review";
+import { MONEY_MOVE_LABELS } from "@/lib/transfers";
+
+interface Props {
+  rows: ReviewRow[];
+  onEdit: (id: number, edit: ReviewEdit) => void;
+}
+
+// Text fields commit on blur so awards aren't recomputed on every keystroke;
+// selects and checkboxes commit immediately.
+export default function ReviewTable({ rows, onEdit }: Props) {
+  const refunded = refundTotals(rows);
+  return (
+    <ul className="flex flex-col gap-2">
+      {rows.map(r => (
+        <li
+          key={r.id}
+          className={`bg-white rounded-xl border border-amber-100 p-3 text-sm flex flex-col gap-2 ${
+            r.excluded ? "opacity-40" : r.internal ? "opacity-70" : ""
+          }`}
+        >
+          <div className="flex gap-2">
+            <input
+              type="date"
+              defaultValue={r.date}
+              onBlur={e => e.target.value && e.target.value !== r.date && onEdit(r.id, { date: e.target.value })}
+              className="border border-amber-200 rounded-lg px-2 py-1 text-amber-900"
+            />
+            <input
+              type="number"
+              step="0.01"
+              defaultValue={r.amount}
+              onBlur={e => {
+                const amount = parseFloat(e.target.value);
+                if (!isNaN(amount) && amount !== r.amount) onEdit(r.id, { amount });
+              }}
+              className={`w-28 border border-amber-200 rounded-lg px-2 py-1 text-right ${
+                r.amount < 0 ? "text-red-700" : "text-green-700"
+              }`}
+            />
+          </div>
+          <input
+            type="text"
+            defaultValue={r.description}
+            onBlur={e => e.target.value !== r.description && onEdit(r.id, { description: e.target.value })}
+            className="border border-amber-200 rounded-lg px-2 py-1 text-gray-800"
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={r.category}
+              onChange={e => onEdit(r.id, { category: e.target.value as Category })}
+              className="border border-amber-200 rounded-lg px-2 py-1 text-amber-900 bg-white"
+            >
+              {ALL_CATEGORIES.map(c => (
+                <option key={c} value={c}>{CATEGORY_LABELS[c]}</option>
+              ))}
+            </select>
+            <span
+              title={describeExplanation(r.explanation)}
+              className="cursor-help text-amber-600"
+              aria-label="¿Por qué esta categoría?"
+            >
+              ⓘ
+            </span>
+            <label className="flex items-center gap-1 text-gray-600">
+              <input
+                type="checkbox"
+                checked={r.internal}
+                onChange={e => onEdit(r.id, { internal: e.target.checked })}
+              />
+              No es gasto
+            </label>
+            <label className="flex items-center gap-1 text-gray-600">
+              <input
+                type="checkbox"
+                checked={r.excluded}
+                onChange={e => onEdit(r.id, { excluded: e.target.checked })}
+              />
+              Excluir
+            </label>
+            {r.accountLabel && <span className="text-xs text-gray-400 ml-auto">{r.accountLabel}</span>}
+          </div>
+          {r.refundOf !== undefined && rows[r.refundOf] && (
+            <p className="text-xs text-green-700">
+              Reembolso de {rows[r.refundOf].date} {rows[r.refundOf].description}
+            </p>
+          )}
+          {refunded.has(r.id) && (
+            <p className="text-xs text-green-700">
+              {refunded.get(r.id)! >= Math.abs(r.amount) - 0.005
+                ? "Reembolsada completa: no cuenta como gasto"
+                : `Reembolsados $${refunded.get(r.id)!.toLocaleString("es-MX")}: cuenta solo el resto`}
+            </p>
+          )}
+          {r.move && (
+            <p className="text-xs text-amber-700">
+              {MONEY_MOVE_LABELS[r.move]}
+              {r.pairId !== undefined && rows[r.pairId] &&
+                ` · con ${rows[r.pairId].date} ${rows[r.pairId].description}`}
+            </p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
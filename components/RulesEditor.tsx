@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { ALL_CATEGORIES, CATEGORY_LABELS } from "@/lib/categorizer";
+import type { Category, CategoryRule } from "@/lib/categorizer";
+
+interface Props {
+  rules: CategoryRule[];
+  onAdd: (rule: CategoryRule) => void;
+  onDelete: (rule: CategoryRule) => void;
+}
+
+const KIND_LABELS: Record<CategoryRule["kind"], string> = {
+  keyword: "Contiene",
+  merchant: "Comercio exacto",
+};
+
+export default function RulesEditor({ rules, onAdd, onDelete }: Props) {
+  const [kind, setKind] = useState<CategoryRule["kind"]>("keyword");
+  const [pattern, setPattern] = useState("");
+  const [category, setCategory] = useState<Category>("restaurant_cafe");
+
+  const submit = () => {
+    if (!pattern.trim()) return;
+    onAdd({ kind, pattern: pattern.trim(), category });
+    setPattern("");
+  };
+
+  return (
+    <details className="bg-white rounded-2xl shadow p-4 border border-amber-100 text-sm">
+      <summary className="font-bold text-amber-900 cursor-pointer">
+        Mis reglas ({rules.length})
+      </summary>
+      <p className="text-xs text-gray-500 mt-2">
+        Se aplican antes que las categorías automáticas y se guardan para tus siguientes meses.
+        En &quot;Contiene&quot; usa <code>*</code> como comodín, <code>^</code> para &quot;empieza con&quot;
+        y <code>=</code> para palabra completa.
+      </p>
+
+      {rules.length > 0 && (
+        <ul className="mt-3 flex flex-col gap-1">
+          {rules.map((r, i) => (
+            <li key={r.id ?? i} className="flex items-center gap-2 text-gray-700">
+              <span className="text-xs text-gray-400">{KIND_LABELS[r.kind]}</span>
+              <code className="bg-amber-50 rounded px-1">{r.pattern}</code>
+              <span>→ {CATEGORY_LABELS[r.category]}</span>
+              <button
+                onClick={() => onDelete(r)}
+                className="ml-auto text-red-600"
+                aria-label="Borrar regla"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <select
+          value={kind}
+          onChange={e => setKind(e.target.value as CategoryRule["kind"])}
+          className="border border-amber-200 rounded-lg px-2 py-1 bg-white text-amber-900"
+        >
+          {(Object.keys(KIND_LABELS) as CategoryRule["kind"][]).map(k => (
+            <option key={k} value={k}>{KIND_LABELS[k]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={pattern}
+          onChange={e => setPattern(e.target.value)}
+          onKeyDown={e => e.key === "Enter" && submit()}
+          placeholder={kind === "keyword" ? "fonda*lupita" : "PAGOFACIL GYM 123"}
+          className="flex-1 min-w-32 border border-amber-200 rounded-lg px-2 py-1"
+        />
+        <select
+          value={category}
+          onChange={e => setCategory(e.target.value as Category)}
+          className="border border-amber-200 rounded-lg px-2 py-1 bg-white text-amber-900"
+        >
+          {ALL_CATEGORIES.map(c => (
+            <option key={c} value={c}>{CATEGORY_LABELS[c]}</option>
+          ))}
+        </select>
+        <button
+          onClick={submit}
+          className="bg-amber-500 hover:bg-amber-600 text-white font-bold rounded-lg px-3 py-1"
+        >
+          Agregar
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -1,4 +1,11 @@
-import { CategorizedTransaction } from "./categorizer";
+import { ALL_CATEGORIES, CATEGORY_LABELS, CategorizedTransaction } from "./categorizer";
+import type { Category } from "./categorizer";
+import { merchantKey } from "./merchants";
+import type { Transaction } from "./parser";
+import { paydaysBetween } from "./payday";
+import { addDays, daysBetween, formatPeriod, thisPeriod } from "./periods";
+import type { Period } from "./periods";
+import type { PaySchedule } from "./payday";
 
 export interface Award {
   id: string;
@@ -6,6 +13,7 @@ export interface Award {
   emoji: string;
   roast_text: string;
   trigger_value: number; // higher = stronger signal = appears first
+  thresholds?: AwardThresholds; // as applied, after income scaling
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
@@ -14,6 +22,7 @@ const MES = [
   "enero","febrero","marzo","abril","mayo","junio",
   "julio","agosto","septiembre","octubre","noviembre","diciembre",
 ];
+const DIAS = ["domingo", "lunes", "martes", "miércoles", "jueves", "viernes", "sábado"];
 
 /** Format as "$1,234" (no decimals, Mexican locale) */
 function mxn(n: number): string {
@@ -31,15 +40,6 @@ function dow(dateStr: string): number {
   return new Date(y, m - 1, d).getDay();
 }
 
-/** Days from dateA to dateB (positive = B is after A) */
-function daysBetween(a: string, b: string): number {
-  const [ay, am, ad] = a.split("-").map(Number);
-  const [by, bm, bd] = b.split("-").map(Number);
-  return Math.round(
-    (new Date(by, bm - 1, bd).getTime() - new Date(ay, am - 1, ad).getTime()) / 86400000
-  );
-}
-
 /** Advance a YYYY-MM-DD date by one day */
 function nextDay(dateStr: string): string {
   const [y, m, d] = dateStr.split("-").map(Number);
@@ -53,50 +53,153 @@ function humanDate(dateStr: string): string {
   return `${parseInt(d)} de ${MES[parseInt(m) - 1]}`;
 }
 
-// ─── Award evaluators ─────────────────────────────────────────────────────────
+// ─── Award definitions ────────────────────────────────────────────────────────
+// Every award is declared once in AWARDS below; calculateAwards() and the
+// trends UI both read from it. Simple awards are a predicate over
+// transactions plus a roast template; the rest bring their own evaluate().
+
+/** Eligibility numbers, by name. Kept apart from the logic so they can be tuned */
+export type AwardThresholds = Record<string, number>;
+
+export interface AwardContext {
+  income?: number | null;  // monthly income: user-entered salary or detectMonthlyIncome()
+  openingBalance?: number | null;  // statement's balance before the first transaction
+  paySchedule?: PaySchedule | null;  // detectPaySchedule(); 15th and month end when missing
+  period?: Period;                   // being evaluated; else the days the transactions cover
+  history?: PastPeriod[];            // earlier periods, for awards that compare against them
+  movements?: Transaction[];         // everything that moved the balance; else the transactions
+}
 
-function indiceGodin(txns: CategorizedTransaction[]): Award | null {
-  const list = txns.filter(t => t.category === "convenience_store" && t.amount < 0);
-  if (list.length < 2) return null;
+/** A period saved earlier (quincena_results); structurally a subset of HistoryRow */
+export interface PastPeriod {
+  period: Period;
+  total_spent: number;
+  category_totals: Record<string, number> | null;
+}
 
-  const total = list.reduce((s, t) => s + Math.abs(t.amount), 0);
-  const hasOxxo = list.some(t => t.description.toLowerCase().includes("oxxo"));
-  const storeName = hasOxxo ? "el Oxxo" : "la tiendita de conveniencia";
+/** What evaluators see: the caller's context plus the paydays around the statement */
+export interface EvaluationContext extends AwardContext {
+  paydays: string[];
+}
 
-  return {
-    id: "indice_godin",
-    title: "Índice Godín",
-    emoji: "🏪",
-    roast_text:
-      `Fuiste ${list.length} veces a ${storeName} este mes — ${mxn(total)} en total. ` +
-      `Literalmente estás financiando la remodelación de la sucursal más cercana a tu chamba. ` +
-      `¿El súper existe o sólo lo visitas en teoría?`,
-    trigger_value: list.length,
-  };
+// Thresholds below are tuned for this monthly income; money thresholds named
+// in an award's `scaled` list grow and shrink in proportion to the user's.
+export const REFERENCE_INCOME = 25000;
+const MIN_SCALE = 0.5, MAX_SCALE = 4;
+
+export function incomeScale(income?: number | null): number {
+  if (!income || income <= 0) return 1;
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, income / REFERENCE_INCOME));
 }
 
-function accionistaUber(txns: CategorizedTransaction[]): Award | null {
-  const list = txns.filter(t => t.category === "rideshare" && t.amount < 0);
-  const total = list.reduce((s, t) => s + Math.abs(t.amount), 0);
-  if (total < 200) return null;
+/** What an evaluator returns; the registry adds id, title and emoji */
+export interface AwardOutcome {
+  roast_text: string;
+  trigger_value: number;
+}
 
-  const avgTrip = list.length ? Math.round(total / list.length) : 0;
+interface AwardBase {
+  id: string;
+  title: string;
+  emoji: string;
+  thresholds: AwardThresholds;
+  scaled?: string[];     // threshold names that are pesos and scale with income
+  perPeriod?: string[];  // peso totals over a month that follow the period's length
+}
 
-  return {
-    id: "accionista_uber",
-    title: "Accionista de Uber",
-    emoji: "🚗",
-    roast_text:
-      `${mxn(total)} en Uber y DiDi este mes, ${list.length} viajes — promedio ${mxn(avgTrip)} cada uno. ` +
-      `Con eso ya ibas mereciendo dividendos trimestrales. ` +
-      `¿Tus piernas son de adorno o tienen algún plan de negocio propio?`,
-    trigger_value: total,
-  };
+/** Which transactions a predicate award looks at */
+export interface TransactionFilter {
+  category?: Category | Category[];
+  direction?: "charge" | "credit";        // default: charge (amount < 0)
+  daysOfWeek?: number[];                  // 0=Sun … 6=Sat
+  daysOfMonth?: [number, number][];       // inclusive windows, e.g. [[15, 15], [30, 31]]
+  paydayWindow?: [number, number];        // days after a payday, inclusive; negative = before
+}
+
+/**
+ * Award from a filter alone: it wins when the transactions between minAmount
+ * and maxAmount reach minCount and minTotal (each threshold optional). The
+ * roast can use {count}, {total}, {avg}, {max}, {maxDesc}, {maxDate},
+ * {period}, any threshold by name and whatever `vars` returns.
+ */
+export interface PredicateAward extends AwardBase {
+  kind: "predicate";
+  filter: TransactionFilter;
+  trigger: "count" | "total" | "max";
+  roast: string;
+  vars?: (matched: CategorizedTransaction[]) => Record<string, string>;
+}
+
+export interface CustomAward extends AwardBase {
+  kind: "custom";
+  evaluate: (txns: CategorizedTransaction[], thresholds: AwardThresholds, ctx: EvaluationContext) => AwardOutcome | null;
+}
+
+export type AwardDefinition = PredicateAward | CustomAward;
+
+/** Whether `date` is within [from, to] days of any payday */
+function nearPayday(date: string, paydays: string[], [from, to]: [number, number]): boolean {
+  return paydays.some(p => {
+    const offset = daysBetween(p, date);
+    return offset >= from && offset <= to;
+  });
+}
+
+function matchesFilter(
+  t: CategorizedTransaction,
+  f: TransactionFilter,
+  paydays: string[],
+  { minAmount = 0, maxAmount = Infinity }: AwardThresholds
+): boolean {
+  if ((f.direction ?? "charge") === "charge" ? t.amount >= 0 : t.amount <= 0) return false;
+  if (f.category && ![f.category].flat().includes(t.category)) return false;
+  if (Math.abs(t.amount) <= minAmount || Math.abs(t.amount) >= maxAmount) return false;
+  if (f.daysOfWeek && !f.daysOfWeek.includes(dow(t.date))) return false;
+  if (f.daysOfMonth && !f.daysOfMonth.some(([a, b]) => dom(t.date) >= a && dom(t.date) <= b)) return false;
+  if (f.paydayWindow && !nearPayday(t.date, paydays, f.paydayWindow)) return false;
+  return true;
+}
+
+function fillTemplate(template: string, vars: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (m, k) => (k in vars ? String(vars[k]) : m));
+}
+
+function evaluatePredicate(
+  def: PredicateAward,
+  txns: CategorizedTransaction[],
+  th: AwardThresholds,
+  ctx: EvaluationContext
+): AwardOutcome | null {
+  const matched = txns.filter(t => matchesFilter(t, def.filter, ctx.paydays, th));
+  const { minCount = 1, minTotal = 0 } = th;
+  const total = matched.reduce((s, t) => s + Math.abs(t.amount), 0);
+  if (!matched.length || matched.length < minCount || total < minTotal) return null;
+
+  // Largest charge (or credit); ties keep the first
+  const biggest = matched.reduce((max, t) => (Math.abs(t.amount) > Math.abs(max.amount) ? t : max));
+  const stats = { count: matched.length, total, max: Math.abs(biggest.amount) };
+  const thresholdVars = Object.fromEntries(
+    Object.entries(th).map(([k, v]) => [k, def.scaled?.includes(k) ? mxn(v) : v])
+  );
+  const roast_text = fillTemplate(def.roast, {
+    ...thresholdVars,
+    count: stats.count,
+    total: mxn(total),
+    avg: mxn(Math.round(total / matched.length)),
+    max: mxn(stats.max),
+    maxDesc: biggest.description,
+    maxDate: humanDate(biggest.date),
+    period: thisPeriod(ctx.period?.key),
+    ...def.vars?.(matched),
+  });
+  return { roast_text, trigger_value: stats[def.trigger] };
 }
 
-function bancoCentral(txns: CategorizedTransaction[]): Award | null {
+// ─── Custom evaluators ────────────────────────────────────────────────────────
+
+function bancoCentral(txns: CategorizedTransaction[], th: AwardThresholds): AwardOutcome | null {
   const bigWeekend = txns.filter(
-    t => t.amount < -1000 && (dow(t.date) === 5 || dow(t.date) === 6)
+    t => t.amount < -th.minPayout && (dow(t.date) === 5 || dow(t.date) === 6)
   );
 
   for (const trigger of bigWeekend) {
@@ -107,15 +210,12 @@ function bancoCentral(txns: CategorizedTransaction[]): Award | null {
         daysBetween(trigger.date, t.date) >= 0 &&
         daysBetween(trigger.date, t.date) <= 2
     );
-    if (incoming.length < 3) continue;
+    if (incoming.length < th.minPaybacks) continue;
 
     const dayName = dow(trigger.date) === 5 ? "viernes" : "sábado";
     const inTotal = incoming.reduce((s, t) => s + t.amount, 0);
 
     return {
-      id: "banco_central",
-      title: "Banco Central",
-      emoji: "🏦",
       roast_text:
         `El ${dayName} ${humanDate(trigger.date)} soltaste ${mxn(trigger.amount)} de un solo golpe, ` +
         `y en las siguientes 48 horas te cayeron ${incoming.length} transferencias por ${mxn(inTotal)}. ` +
@@ -126,36 +226,15 @@ function bancoCentral(txns: CategorizedTransaction[]): Award | null {
   return null;
 }
 
-function hoyoNegroEfectivo(txns: CategorizedTransaction[]): Award | null {
-  const list = txns.filter(t => t.category === "cash_withdrawal" && t.amount < 0);
-  if (list.length < 4) return null;
-
-  const total = list.reduce((s, t) => s + Math.abs(t.amount), 0);
-
-  return {
-    id: "hoyo_negro_efectivo",
-    title: "Hoyo Negro de Efectivo",
-    emoji: "💸",
-    roast_text:
-      `${list.length} retiros de cajero este mes — ${mxn(total)} en total. ` +
-      `El efectivo entra al bolsillo y desaparece como lágrimas en la lluvia: nadie sabe en qué se fue. ` +
-      `¿El casero, la vaca, o simplemente "gastos varios"?`,
-    trigger_value: list.length,
-  };
-}
-
-function socioSmartfit(txns: CategorizedTransaction[]): Award | null {
-  const gym = txns.filter(t => t.category === "subscription_gym");
+function socioSmartfit(txns: CategorizedTransaction[], th: AwardThresholds): AwardOutcome | null {
+  const gym = txns.filter(t => t.category === "fitness" && t.amount < 0);
   const delivery = txns.filter(t => t.category === "food_delivery" && t.amount < 0);
-  if (gym.length < 1 || delivery.length < 5) return null;
+  if (gym.length < 1 || delivery.length < th.minDeliveries) return null;
 
   const gymTotal = gym.reduce((s, t) => s + Math.abs(t.amount), 0);
   const delivTotal = delivery.reduce((s, t) => s + Math.abs(t.amount), 0);
 
   return {
-    id: "socio_honorario_smartfit",
-    title: "Socio Honorario SmartFit",
-    emoji: "🏋️",
     roast_text:
       `Pagaste ${mxn(gymTotal)} de gym y luego pediste delivery ${delivery.length} veces (${mxn(delivTotal)}). ` +
       `La membresía claramente existe para compensar el karma del Uber Eats. ` +
@@ -164,51 +243,20 @@ function socioSmartfit(txns: CategorizedTransaction[]): Award | null {
   };
 }
 
-function sindromeMeLoMerezco(txns: CategorizedTransaction[]): Award | null {
-  const qualifying = txns.filter(
-    t => t.category === "ecommerce" && t.amount < -500 && [15, 30, 31].includes(dom(t.date))
-  );
-  if (!qualifying.length) return null;
-
-  const biggest = qualifying.reduce((max, t) => (t.amount < max.amount ? t : max));
-  const day = dom(biggest.date);
-  const zona = day === 15 ? "justo en quincena" : "con el último depósito del mes";
-
-  return {
-    id: "sindrome_me_lo_merezco",
-    title: "Síndrome 'Me Lo Merezco'",
-    emoji: "🛍️",
-    roast_text:
-      `El ${humanDate(biggest.date)} (${zona}) te aventaste ${mxn(biggest.amount)} en ${biggest.description}. ` +
-      `Llegó el dinero, se fue la razón — en ese orden. ` +
-      `¿A poco no te lo mereces? (La respuesta correcta es no, pero ya fue.)`,
-    trigger_value: Math.abs(biggest.amount),
-  };
-}
-
-function martirComisiones(txns: CategorizedTransaction[]): Award | null {
-  const fees = txns.filter(t => t.category === "bank_fee" && t.amount < 0);
-  if (!fees.length) return null;
-
-  const total = fees.reduce((s, t) => s + Math.abs(t.amount), 0);
-  const plural = fees.length > 1 ? ` En ${fees.length} cargos distintos, para más inri.` : "";
-
-  return {
-    id: "martir_comisiones",
-    title: "Mártir de las Comisiones",
-    emoji: "😤",
-    roast_text:
-      `Tu banco te cobró ${mxn(total)} en comisiones este mes.${plural} ` +
-      `Te están cobrando el privilegio de guardarles tu propio dinero. ` +
-      `Ya existen Nu, Spin y mil opciones sin comisiones — solo diciéndote.`,
-    trigger_value: total,
-  };
-}
-
-function sobrevivienteExtremo(txns: CategorizedTransaction[]): Award | null {
-  if (!txns.length) return null;
-
-  const sorted = [...txns].sort((a, b) => a.date.localeCompare(b.date));
+/**
+ * Lowest end-of-day balance in the two days before a payday. Starts from the
+ * statement's opening balance (0 when unknown, which only works for a fresh
+ * account) and prefers the bank's printed Saldo over our own sum when there's
+ * a single account to read it from. Walks ctx.movements when given: own-account
+ * moves and refunded purchases leave spending but not the balance.
+ */
+function sobrevivienteExtremo(
+  txns: CategorizedTransaction[],
+  th: AwardThresholds,
+  ctx: EvaluationContext
+): AwardOutcome | null {
+  const sorted = [...(ctx.movements ?? txns)].sort((a, b) => a.date.localeCompare(b.date));
+  if (!sorted.length) return null;
 
   // Accumulate net per date
   const netByDate = new Map<string, number>();
@@ -219,15 +267,20 @@ function sobrevivienteExtremo(txns: CategorizedTransaction[]): Award | null {
   const firstDate = sorted[0].date;
   const lastDate = sorted[sorted.length - 1].date;
 
-  let running = 0;
+  // Last Saldo printed each day; sorting is stable, so statement order holds within a day
+  const printed = new Map<string, number>();
+  if (new Set(sorted.map(t => t.account)).size === 1) {
+    for (const t of sorted) if (t.balance !== undefined) printed.set(t.date, t.balance);
+  }
+
+  let running = ctx.openingBalance ?? 0;
   let lowestBalance: number | null = null;
   let lowestDate: string | null = null;
   let current = firstDate;
 
   while (current <= lastDate) {
-    running += netByDate.get(current) ?? 0;
-    const day = dom(current);
-    if ([13, 14, 28, 29].includes(day) && running < 50) {
+    running = printed.get(current) ?? running + (netByDate.get(current) ?? 0);
+    if (nearPayday(current, ctx.paydays, [-2, -1]) && running < th.maxBalance) {
       if (lowestBalance === null || running < lowestBalance) {
         lowestBalance = running;
         lowestDate = current;
@@ -238,49 +291,490 @@ function sobrevivienteExtremo(txns: CategorizedTransaction[]): Award | null {
 
   if (lowestBalance === null || lowestDate === null) return null;
 
-  const day = dom(lowestDate);
-  const zona = day <= 14 ? "antes de la quincena" : "antes de fin de mes";
+  const payday = ctx.paydays.find(p => p > lowestDate!)!;
+  const zona = dom(payday) === 15 ? "antes de la quincena"
+    : dom(payday) >= 28 ? "antes de fin de mes"
+    : `antes de tu pago del ${humanDate(payday)}`;
   const balStr =
     lowestBalance < 0
       ? `−${mxn(lowestBalance)} (sí, en números rojos)`
       : `${mxn(lowestBalance)} pesitos`;
 
   return {
-    id: "sobreviviente_extremo",
-    title: "Sobreviviente Extremo",
-    emoji: "🧗",
     roast_text:
       `El ${humanDate(lowestDate)} (${zona}) tu saldo llegó a ${balStr}. ` +
       `Modo supervivencia activado: WiFi del vecino, tacos de nada y fe ciega en que el jueves cae el depósito. ` +
       `Sobreviviste. Eres un héroe. Un héroe irresponsable, pero héroe.`,
-    // Distance below $50 → bigger = more extreme = sorts higher
-    trigger_value: Math.max(0, 50 - lowestBalance),
+    // Distance below the threshold → bigger = more extreme = sorts higher
+    trigger_value: Math.max(0, th.maxBalance - lowestBalance),
   };
 }
 
-// ─── Public API ───────────────────────────────────────────────────────────────
+function findeADomicilio(
+  txns: CategorizedTransaction[],
+  th: AwardThresholds,
+  ctx: EvaluationContext
+): AwardOutcome | null {
+  const delivery = txns.filter(t => t.category === "food_delivery" && t.amount < 0);
+  // Friday night counts: nobody cooks after the last meeting of the week
+  const weekend = delivery.filter(t => [5, 6, 0].includes(dow(t.date)));
+  if (weekend.length < th.minCount || weekend.length < delivery.length * th.minShare) return null;
+
+  const total = weekend.reduce((s, t) => s + Math.abs(t.amount), 0);
+  const share = Math.round((weekend.length / delivery.length) * 100);
+
+  return {
+    roast_text:
+      `${weekend.length} pedidos a domicilio entre viernes y domingo — ${mxn(total)}, ` +
+      `el ${share}% de todo tu delivery de ${thisPeriod(ctx.period?.key)}. ` +
+      `De lunes a jueves eres chef; llega el fin y la cocina se vuelve bodega. ` +
+      `El repartidor ya se sabe tu nombre, tu perro y tu contraseña del WiFi.`,
+    trigger_value: total,
+  };
+}
+
+function diaDeFuria(txns: CategorizedTransaction[], th: AwardThresholds): AwardOutcome | null {
+  // Rent and transfers to people are a single click, not a spree
+  const charges = txns.filter(t => t.amount < 0 && t.category !== "spei_transfer");
+  const byDate = new Map<string, CategorizedTransaction[]>();
+  for (const t of charges) byDate.set(t.date, [...(byDate.get(t.date) ?? []), t]);
 
-const EVALUATORS = [
-  indiceGodin,
-  accionistaUber,
-  bancoCentral,
-  hoyoNegroEfectivo,
-  socioSmartfit,
-  sindromeMeLoMerezco,
-  martirComisiones,
-  sobrevivienteExtremo,
+  let worst: { date: string; total: number; list: CategorizedTransaction[] } | null = null;
+  for (const [date, list] of byDate) {
+    const total = list.reduce((s, t) => s + Math.abs(t.amount), 0);
+    if (!worst || total > worst.total) worst = { date, total, list };
+  }
+  if (!worst || worst.total < th.minTotal || worst.list.length < th.minCount) return null;
+
+  const biggest = worst.list.reduce((max, t) => (t.amount < max.amount ? t : max));
+  return {
+    roast_text:
+      `El ${DIAS[dow(worst.date)]} ${humanDate(worst.date)} gastaste ${mxn(worst.total)} en ${worst.list.length} cargos, ` +
+      `empezando por ${mxn(biggest.amount)} en ${biggest.description}. ` +
+      `Un solo día. Veinticuatro horas. Hay quincenas enteras que duran menos que tu tarjeta ese día. ` +
+      `¿Qué pasó? No, mejor no nos cuentes.`,
+    trigger_value: worst.total,
+  };
+}
+
+function clienteDistinguido(txns: CategorizedTransaction[], th: AwardThresholds): AwardOutcome | null {
+  // Fees and transfers repeat on their own; only places you chose to go back to
+  const charges = txns.filter(
+    t => t.amount < 0 && t.category !== "bank_fee" && t.category !== "spei_transfer"
+  );
+  const byMerchant = new Map<string, CategorizedTransaction[]>();
+  for (const t of charges) {
+    const key = merchantKey(t.description);
+    if (key) byMerchant.set(key, [...(byMerchant.get(key) ?? []), t]);
+  }
+
+  let best: { list: CategorizedTransaction[]; days: number } | null = null;
+  for (const list of byMerchant.values()) {
+    const dates = [...new Set(list.map(t => t.date))].sort();
+    let runStart = 0;
+    for (let i = 1; i <= dates.length; i++) {
+      if (i < dates.length && daysBetween(dates[i - 1], dates[i]) === 1) continue;
+      const days = i - runStart;
+      if (!best || days > best.days) {
+        const [from, to] = [dates[runStart], dates[i - 1]];
+        best = { list: list.filter(t => t.date >= from && t.date <= to), days };
+      }
+      runStart = i;
+    }
+  }
+  if (!best || best.days < th.minDays) return null;
+
+  const { list, days } = best;
+  const total = list.reduce((s, t) => s + Math.abs(t.amount), 0);
+
+  return {
+    roast_text:
+      `${days} días seguidos en ${list[0].description}, del ${humanDate(list[0].date)} ` +
+      `al ${humanDate(list[list.length - 1].date)} — ${mxn(total)} en total. ` +
+      `Eso ya no es antojo, es relación estable. ` +
+      `Pide que te pongan una placa con tu nombre; te la ganaste con tu propio dinero.`,
+    trigger_value: days,
+  };
+}
+
+// ─── History evaluators ───────────────────────────────────────────────────────
+// Periods differ in length (quincena, month, card cut-off), so comparisons go
+// through spending per day, turned back into pesos for this period's length.
+
+// "Your last three months"
+const HISTORY_DAYS = 92;
+const MONTH_DAYS = 30.4;
+
+function periodDays(p: Period): number {
+  return daysBetween(p.start, p.end) + 1;
+}
+
+function currentPeriod(txns: CategorizedTransaction[], ctx: EvaluationContext): Period {
+  if (ctx.period) return ctx.period;
+  const dates = txns.map(t => t.date).sort();
+  return { key: "", start: dates[0], end: dates[dates.length - 1] };
+}
+
+/** Saved periods that ended before this one started, within the last three months */
+function recentHistory(current: Period, ctx: EvaluationContext): PastPeriod[] {
+  const since = addDays(current.start, -HISTORY_DAYS);
+  return (ctx.history ?? []).filter(
+    h => h.category_totals && h.period.end < current.start && h.period.start >= since
+  );
+}
+
+/** Average spend per day in each category across `history` */
+function dailyCategoryRates(history: PastPeriod[]): Record<string, number> {
+  const days = history.reduce((s, h) => s + periodDays(h.period), 0);
+  const rates: Record<string, number> = {};
+  for (const h of history) {
+    for (const [category, total] of Object.entries(h.category_totals ?? {})) {
+      rates[category] = (rates[category] ?? 0) + total / days;
+    }
+  }
+  return rates;
+}
+
+function categoryTotal(txns: CategorizedTransaction[], category: string): number {
+  return txns.filter(t => t.category === category && t.amount < 0).reduce((s, t) => s + Math.abs(t.amount), 0);
+}
+
+function deliveryDesbocado(
+  txns: CategorizedTransaction[],
+  th: AwardThresholds,
+  ctx: EvaluationContext
+): AwardOutcome | null {
+  if (!txns.length) return null;
+  const current = currentPeriod(txns, ctx);
+  const history = recentHistory(current, ctx);
+  if (history.length < th.minHistory) return null;
+
+  const usual = (dailyCategoryRates(history).food_delivery ?? 0) * periodDays(current);
+  const total = categoryTotal(txns, "food_delivery");
+  if (!usual || total < th.minTotal || total < usual * (1 + th.minIncrease)) return null;
+
+  const pct = Math.round((total / usual - 1) * 100);
+  return {
+    roast_text:
+      `${mxn(total)} en delivery ${thisPeriod(ctx.period?.key)}: ${pct}% más que tu promedio de los últimos tres meses ` +
+      `(normalmente serían ${mxn(usual)}). ` +
+      `Algo pasó. ¿Se descompuso la estufa? ¿Descubriste el envío gratis? ` +
+      `Sea lo que sea, Rappi ya te considera familia.`,
+    trigger_value: Math.round(total - usual),
+  };
+}
+
+// Not spending, or not something you decide week to week
+const NOT_IMPROVABLE = new Set(["spei_transfer", "cash_withdrawal", "other"]);
+
+function mejoraDelPeriodo(
+  txns: CategorizedTransaction[],
+  th: AwardThresholds,
+  ctx: EvaluationContext
+): AwardOutcome | null {
+  if (!txns.length) return null;
+  const current = currentPeriod(txns, ctx);
+  const history = recentHistory(current, ctx);
+  if (history.length < th.minHistory) return null;
+
+  const days = periodDays(current);
+  let best: { category: string; usual: number; total: number } | null = null;
+  for (const [category, rate] of Object.entries(dailyCategoryRates(history))) {
+    if (NOT_IMPROVABLE.has(category)) continue;
+    const usual = rate * days;
+    const total = categoryTotal(txns, category);
+    if (usual < th.minUsual || total > usual * (1 - th.minDrop)) continue;
+    if (!best || usual - total > best.usual - best.total) best = { category, usual, total };
+  }
+  if (!best) return null;
+
+  const { category, usual, total } = best;
+  const label = CATEGORY_LABELS[category as Category] ?? category;
+  const pct = Math.round((1 - total / usual) * 100);
+  return {
+    roast_text:
+      `En ${label} gastaste ${mxn(total)}, ${pct}% menos que tu promedio de los últimos tres meses ` +
+      `(${mxn(usual)}). Son ${mxn(usual - total)} que siguen en tu cuenta. ` +
+      `Sí, es un premio de verdad. No te acostumbres: el próximo periodo seguro te la cobras.`,
+    trigger_value: Math.round(usual - total),
+  };
+}
+
+function recordPersonal(
+  txns: CategorizedTransaction[],
+  th: AwardThresholds,
+  ctx: EvaluationContext
+): AwardOutcome | null {
+  if (!txns.length) return null;
+  const current = currentPeriod(txns, ctx);
+  const past = (ctx.history ?? []).filter(h => h.period.end < current.start && h.total_spent > 0);
+  if (past.length < th.minHistory) return null;
+
+  const days = periodDays(current);
+  const total = txns.filter(t => t.amount < 0).reduce((s, t) => s + Math.abs(t.amount), 0);
+  // Every past period stretched or shrunk to this one's length
+  const previous = past.reduce((max, h) =>
+    h.total_spent / periodDays(h.period) > max.total_spent / periodDays(max.period) ? h : max
+  );
+  const previousTotal = (previous.total_spent / periodDays(previous.period)) * days;
+  if (total <= previousTotal) return null;
+
+  return {
+    roast_text:
+      `Nuevo récord personal: ${mxn(total)} en un periodo, lo más que has gastado en los ${past.length + 1} ` +
+      `que llevas subidos. El récord anterior era de ${formatPeriod(previous.period.key)} ` +
+      `(${mxn(previousTotal)} a la misma escala). ` +
+      `Las marcas están para romperse, pero esta no tenías que romperla tú.`,
+    // By how much the record fell, like the other history awards, not the raw spend
+    trigger_value: Math.round(total - previousTotal),
+  };
+}
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+
+// Where the money bought something: fees, transfers and ATM withdrawals are
+// small and frequent too, but nobody chose them one at a time
+const PURCHASES = ALL_CATEGORIES.filter(c => !["bank_fee", "spei_transfer", "cash_withdrawal"].includes(c));
+
+export const AWARDS: AwardDefinition[] = [
+  {
+    kind: "predicate",
+    id: "indice_godin",
+    title: "Índice Godín",
+    emoji: "🏪",
+    thresholds: { minCount: 2 },
+    filter: { category: "convenience_store" },
+    trigger: "count",
+    vars: list => ({
+      store: list.some(t => t.description.toLowerCase().includes("oxxo"))
+        ? "el Oxxo"
+        : "la tiendita de conveniencia",
+    }),
+    roast:
+      "Fuiste {count} veces a {store} {period} — {total} en total. " +
+      "Literalmente estás financiando la remodelación de la sucursal más cercana a tu chamba. " +
+      "¿El súper existe o sólo lo visitas en teoría?",
+  },
+  {
+    kind: "predicate",
+    id: "accionista_uber",
+    title: "Accionista de Uber",
+    emoji: "🚗",
+    thresholds: { minTotal: 200 },
+    scaled: ["minTotal"],
+    perPeriod: ["minTotal"],
+    filter: { category: "rideshare" },
+    trigger: "total",
+    roast:
+      "{total} en Uber y DiDi {period}, {count} viajes — promedio {avg} cada uno. " +
+      "Con lo que ganas, pasar de {minTotal} ya cuenta como inversión. " +
+      "Con eso ya ibas mereciendo dividendos trimestrales. " +
+      "¿Tus piernas son de adorno o tienen algún plan de negocio propio?",
+  },
+  {
+    kind: "custom",
+    id: "banco_central",
+    title: "Banco Central",
+    emoji: "🏦",
+    thresholds: { minPayout: 1000, minPaybacks: 3 },
+    scaled: ["minPayout"],
+    evaluate: bancoCentral,
+  },
+  {
+    kind: "predicate",
+    id: "hoyo_negro_efectivo",
+    title: "Hoyo Negro de Efectivo",
+    emoji: "💸",
+    thresholds: { minCount: 4 },
+    filter: { category: "cash_withdrawal" },
+    trigger: "count",
+    roast:
+      "{count} retiros de cajero {period} — {total} en total. " +
+      "El efectivo entra al bolsillo y desaparece como lágrimas en la lluvia: nadie sabe en qué se fue. " +
+      "¿El casero, la vaca, o simplemente \"gastos varios\"?",
+  },
+  {
+    kind: "custom",
+    id: "socio_honorario_smartfit",
+    title: "Socio Honorario SmartFit",
+    emoji: "🏋️",
+    thresholds: { minDeliveries: 5 },
+    evaluate: socioSmartfit,
+  },
+  {
+    kind: "predicate",
+    id: "sindrome_me_lo_merezco",
+    title: "Síndrome 'Me Lo Merezco'",
+    emoji: "🛍️",
+    thresholds: { minAmount: 500 },
+    scaled: ["minAmount"],
+    filter: { category: "ecommerce", paydayWindow: [0, 0] },
+    trigger: "max",
+    vars: list => {
+      const biggest = list.reduce((max, t) => (t.amount < max.amount ? t : max));
+      const day = dom(biggest.date);
+      return {
+        zona: day === 15 ? "justo en quincena"
+          : day >= 28 ? "con el último depósito del mes"
+          : "el mismo día que te pagaron",
+      };
+    },
+    roast:
+      "El {maxDate} ({zona}) te aventaste {max} en {maxDesc}. " +
+      "Llegó el dinero, se fue la razón — en ese orden. " +
+      "¿A poco no te lo mereces? (La respuesta correcta es no, pero ya fue.)",
+  },
+  {
+    kind: "predicate",
+    id: "martir_comisiones",
+    title: "Mártir de las Comisiones",
+    emoji: "😤",
+    thresholds: { minCount: 1 },
+    filter: { category: "bank_fee" },
+    trigger: "total",
+    vars: list => ({
+      plural: list.length > 1 ? ` En ${list.length} cargos distintos, para más inri.` : "",
+    }),
+    roast:
+      "Tu banco te cobró {total} en comisiones {period}.{plural} " +
+      "Te están cobrando el privilegio de guardarles tu propio dinero. " +
+      "Ya existen Nu, Spin y mil opciones sin comisiones — solo diciéndote.",
+  },
+  {
+    kind: "custom",
+    id: "sobreviviente_extremo",
+    title: "Sobreviviente Extremo",
+    emoji: "🧗",
+    thresholds: { maxBalance: 50 },
+    scaled: ["maxBalance"],
+    evaluate: sobrevivienteExtremo,
+  },
+  {
+    kind: "custom",
+    id: "finde_a_domicilio",
+    title: "Fin de Semana a Domicilio",
+    emoji: "🛵",
+    thresholds: { minCount: 3, minShare: 0.6 },
+    evaluate: findeADomicilio,
+  },
+  {
+    kind: "predicate",
+    id: "gastos_hormiga",
+    title: "Muerte por Gastos Hormiga",
+    emoji: "🐜",
+    thresholds: { maxAmount: 100, minCount: 15, minTotal: 1000 },
+    scaled: ["maxAmount", "minTotal"],
+    perPeriod: ["minTotal"],
+    filter: { category: PURCHASES },
+    trigger: "total",
+    roast:
+      "{count} compras de menos de {maxAmount} {period}. Ninguna dolió; juntas suman {total}. " +
+      "Un chicle aquí, un cafecito allá, la recarga, el estacionamiento… " +
+      "Las hormigas no se comen la casa de un mordisco, pero se la comen.",
+  },
+  {
+    kind: "custom",
+    id: "dia_de_furia",
+    title: "Día de Furia",
+    emoji: "🔥",
+    thresholds: { minTotal: 3000, minCount: 3 },
+    scaled: ["minTotal"],
+    evaluate: diaDeFuria,
+  },
+  {
+    kind: "custom",
+    id: "cliente_distinguido",
+    title: "Cliente Distinguido",
+    emoji: "🔁",
+    thresholds: { minDays: 3 },
+    evaluate: clienteDistinguido,
+  },
+  {
+    kind: "custom",
+    id: "delivery_desbocado",
+    title: "Delivery Desbocado",
+    emoji: "📈",
+    thresholds: { minIncrease: 0.4, minTotal: 300, minHistory: 2 },
+    scaled: ["minTotal"],
+    perPeriod: ["minTotal"],
+    evaluate: deliveryDesbocado,
+  },
+  {
+    kind: "custom",
+    id: "mejora_del_periodo",
+    title: "Mejora del Periodo",
+    emoji: "🌱",
+    thresholds: { minDrop: 0.3, minUsual: 500, minHistory: 2 },
+    scaled: ["minUsual"],
+    perPeriod: ["minUsual"],
+    evaluate: mejoraDelPeriodo,
+  },
+  {
+    kind: "custom",
+    id: "record_personal",
+    title: "Récord Personal",
+    emoji: "🏅",
+    thresholds: { minHistory: 3 },
+    evaluate: recordPersonal,
+  },
 ];
 
-export function calculateAwards(txns: CategorizedTransaction[]): Award[] {
-  return EVALUATORS
-    .map(fn => fn(txns))
+const BY_ID = new Map(AWARDS.map(a => [a.id, a]));
+
+export function getAwardDefinition(id: string): AwardDefinition | undefined {
+  return BY_ID.get(id);
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/** Paydays from the first transaction to a month past the last, so "right before payday" works at the end */
+function paydaysAround(txns: CategorizedTransaction[], schedule: PaySchedule | null): string[] {
+  if (!txns.length) return [];
+  const dates = txns.map(t => t.date).sort();
+  return paydaysBetween(schedule, dates[0], addDays(dates[dates.length - 1], 31));
+}
+
+/**
+ * The award's thresholds with money amounts scaled to the user's income and
+ * monthly totals to the period's length: a quincena needs about half. Counts
+ * stay as they are, or one Saturday order would be a habit. Without a period
+ * totals stay monthly.
+ */
+export function effectiveThresholds(def: AwardDefinition, ctx: AwardContext = {}): AwardThresholds {
+  const scale = incomeScale(ctx.income);
+  const length = ctx.period ? periodDays(ctx.period) / MONTH_DAYS : 1;
+  return Object.fromEntries(
+    Object.entries(def.thresholds).map(([k, v]) => {
+      const scaled = def.scaled?.includes(k), perPeriod = def.perPeriod?.includes(k);
+      if (!scaled && !perPeriod) return [k, v];
+      return [k, Math.round(v * (scaled ? scale : 1) * (perPeriod ? length : 1))];
+    })
+  );
+}
+
+export function evaluateAward(
+  def: AwardDefinition,
+  txns: CategorizedTransaction[],
+  ctx: AwardContext = {}
+): Award | null {
+  const thresholds = effectiveThresholds(def, ctx);
+  const evalCtx = { ...ctx, paydays: paydaysAround(txns, ctx.paySchedule ?? null) };
+  const outcome = def.kind === "predicate"
+    ? evaluatePredicate(def, txns, thresholds, evalCtx)
+    : def.evaluate(txns, thresholds, evalCtx);
+  return outcome && { id: def.id, title: def.title, emoji: def.emoji, ...outcome, thresholds };
+}
+
+export function calculateAwards(txns: CategorizedTransaction[], ctx: AwardContext = {}): Award[] {
+  return AWARDS
+    .map(def => evaluateAward(def, txns, ctx))
     .filter((a): a is Award => a !== null)
     .sort((a, b) => b.trigger_value - a.trigger_value);
 }
 
 export function logAwards(awards: Award[]): void {
   if (!awards.length) {
-    console.log("🏆 Ningún premio ganado — este mes fuiste responsable (o mintiéndote a ti mismo).");
+    console.log("🏆 Ningún premio ganado — este periodo fuiste responsable (o mintiéndote a ti mismo).");
     return;
   }
   console.log(`🏆 ${awards.length} premio(s) ganado(s):`);
@@ -0,0 +1,255 @@
+// Bank export profiles for CSV statements. Each profile knows how to spot its
+// own file, which row holds the real header and how the columns map onto a
+// Transaction. parseCSV uses detectProfile() unless the user picks one.
+
+export interface ColumnPatterns {
+  date?: string[];
+  day?: string[];         // split date: day of month
+  month?: string[];       // split date: month number or "ene", "feb"...
+  year?: string[];        // split date: optional, else taken from the preamble
+  description: string[];
+  amount?: string[];      // signed amount (or unsigned when `sign` is set)
+  sign?: string[];        // "+"/"-" or "abono"/"cargo" next to an unsigned amount
+  debit?: string[];       // cargos / retiros / débitos
+  credit?: string[];      // abonos / depósitos / créditos
+  balance?: string[];     // running "Saldo" after each row
+}
+
+export interface BankProfile {
+  id: string;
+  name: string;
+  markers: string[];      // text found above (or in) the header row
+  columns: ColumnPatterns;
+}
+
+export interface ColumnMap {
+  date: number;
+  day: number;
+  month: number;
+  year: number;
+  description: number;
+  amount: number;
+  sign: number;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface ProfileMatch {
+  profile: BankProfile;
+  headerRow: number;      // index into the tokenized rows
+  cols: ColumnMap;
+  preamble: string[][];   // metadata rows above the header
+}
+
+// ─── Profiles ─────────────────────────────────────────────────────────────────
+// Patterns are matched as substrings of the normalized header (lowercase, no
+// accents, letters and spaces only — "Cargo/Abono" becomes "cargoabono").
+
+export const BANK_PROFILES: BankProfile[] = [
+  {
+    id: "bbva",
+    name: "BBVA",
+    markers: ["bbva", "bancomer"],
+    columns: {
+      date: ["fecha"],
+      description: ["concepto", "descripci"],
+      debit: ["cargo"],
+      credit: ["abono"],
+      balance: ["saldo"],
+    },
+  },
+  {
+    id: "banorte",
+    name: "Banorte",
+    markers: ["banorte"],
+    columns: {
+      date: ["fecha"],
+      description: ["descripci", "concepto", "establecimiento"],
+      debit: ["retiro", "cargo"],
+      credit: ["deposito", "abono"],
+      balance: ["saldo"],
+    },
+  },
+  {
+    id: "santander",
+    name: "Santander",
+    markers: ["santander"],
+    columns: {
+      date: ["fecha"],
+      description: ["descripci", "concepto"],
+      sign: ["cargoabono", "cargo abono", "tipo"],
+      amount: ["importe", "monto"],
+      balance: ["saldo"],
+    },
+  },
+  {
+    id: "banamex",
+    name: "Citibanamex",
+    markers: ["banamex"],
+    columns: {
+      date: ["fecha"],
+      description: ["descripci", "concepto"],
+      debit: ["retiro", "cargo"],
+      credit: ["deposito", "abono"],
+      balance: ["saldo"],
+    },
+  },
+  {
+    id: "hsbc",
+    name: "HSBC",
+    markers: ["hsbc"],
+    columns: {
+      date: ["fecha"],
+      description: ["descripci", "concepto", "detalle"],
+      debit: ["debito"],
+      credit: ["credito"],
+      balance: ["saldo"],
+    },
+  },
+  {
+    id: "nu",
+    name: "Nu",
+    markers: ["nu mexico", "nubank", "nu financiera"],
+    columns: {
+      day: ["dia"],
+      month: ["mes"],
+      year: ["ano"],
+      description: ["descripci", "concepto", "comercio"],
+      amount: ["monto", "importe"],
+    },
+  },
+  {
+    id: "mercado_pago",
+    name: "Mercado Pago",
+    markers: ["mercado pago", "mercadopago"],
+    columns: {
+      date: ["fecha de liberacion", "fecha de operacion", "fecha", "release date", "date"],
+      description: ["descripci", "tipo de operacion", "description"],
+      credit: ["credito neto", "net credit", "ingreso"],
+      debit: ["debito neto", "net debit", "egreso"],
+      amount: ["monto neto", "monto", "net amount"],
+    },
+  },
+];
+
+/** Fallback when no bank profile matches: the original substring heuristics */
+export const GENERIC_PROFILE: BankProfile = {
+  id: "generic",
+  name: "Genérico",
+  markers: [],
+  columns: {
+    date: ["fecha", "date"],
+    description: ["concepto", "descripci", "description"],
+    amount: ["monto", "importe", "amount"],
+    debit: ["cargo"],
+    credit: ["abono"],
+    balance: ["saldo", "balance"],
+  },
+};
+
+export function getProfile(id: string): BankProfile | undefined {
+  if (id === GENERIC_PROFILE.id) return GENERIC_PROFILE;
+  return BANK_PROFILES.find(p => p.id === id);
+}
+
+// ─── Detection ────────────────────────────────────────────────────────────────
+
+// Metadata blocks are rarely longer than this; anything deeper is data
+const MAX_HEADER_SEARCH = 30;
+
+export function normalizeHeader(s: string): string {
+  return s
+    .replace(/^\uFEFF/, "")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function findCol(header: string[], pats: string[] | undefined, used: Set<number>): number {
+  if (!pats) return -1;
+  // Pattern order wins over column order so "fecha de liberacion" beats a plain "fecha"
+  for (const p of pats) {
+    const i = header.findIndex((h, idx) => !used.has(idx) && h.includes(p));
+    if (i >= 0) {
+      used.add(i);
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Resolve a profile's columns against one header row, or null if it can't produce transactions */
+function mapColumns(header: string[], c: ColumnPatterns): ColumnMap | null {
+  const used = new Set<number>();
+  // Most specific first so e.g. "cargoabono" isn't claimed by a plain "cargo" debit pattern
+  const sign   = findCol(header, c.sign, used);
+  const date   = findCol(header, c.date, used);
+  const day    = date >= 0 ? -1 : findCol(header, c.day, used);
+  const month  = date >= 0 ? -1 : findCol(header, c.month, used);
+  const year   = date >= 0 ? -1 : findCol(header, c.year, used);
+  const debit  = findCol(header, c.debit, used);
+  const credit = findCol(header, c.credit, used);
+  const amount = findCol(header, c.amount, used);
+  const description = findCol(header, c.description, used);
+  const balance = findCol(header, c.balance, used);
+
+  const hasDate = date >= 0 || (day >= 0 && month >= 0);
+  const hasAmount = amount >= 0 || (debit >= 0 && credit >= 0);
+  if (!hasDate || !hasAmount) return null;
+
+  return { date, day, month, year, description, amount, sign, debit, credit, balance };
+}
+
+function countResolved(cols: ColumnMap): number {
+  return Object.values(cols).filter(i => i >= 0).length;
+}
+
+/** Find the header row for a profile within the first rows of the file */
+export function matchProfile(rows: string[][], profile: BankProfile): ProfileMatch | null {
+  const limit = Math.min(rows.length, MAX_HEADER_SEARCH);
+  for (let i = 0; i < limit; i++) {
+    const cols = mapColumns(rows[i].map(normalizeHeader), profile.columns);
+    if (cols) return { profile, headerRow: i, cols, preamble: rows.slice(0, i) };
+  }
+  return null;
+}
+
+/**
+ * Pick the profile that best explains the file. Bank markers in the preamble
+ * or header weigh far more than column coverage; without any marker the
+ * generic profile goes first and bank layouts are only a last resort.
+ */
+export function detectProfile(rows: string[][]): ProfileMatch | null {
+  let best: ProfileMatch | null = null;
+  let bestScore = -1;
+
+  for (const profile of BANK_PROFILES) {
+    const m = matchProfile(rows, profile);
+    if (!m) continue;
+
+    const topText = normalizeHeader(rows.slice(0, m.headerRow + 1).flat().join(" "));
+    const markerHits = profile.markers.filter(k => topText.includes(k)).length;
+    if (!markerHits) continue;
+
+    const score = markerHits * 100 + countResolved(m.cols);
+    if (score > bestScore) {
+      best = m;
+      bestScore = score;
+    }
+  }
+  if (best) return best;
+
+  const generic = matchProfile(rows, GENERIC_PROFILE);
+  if (generic) return generic;
+
+  // Unmarked file with a bank-specific layout (e.g. Retiros/Depósitos)
+  for (const profile of BANK_PROFILES) {
+    const m = matchProfile(rows, profile);
+    if (m) return m;
+  }
+  return null;
+}
@@ -1,4 +1,6 @@
 import { Transaction } from "./parser";
+import { lookupMerchant } from "./merchants";
+import type { MerchantMemory } from "./merchants";
 
 export type Category =
   | "convenience_store"
@@ -7,7 +9,8 @@ export type Category =
   | "restaurant_cafe"
   | "supermarket"
   | "cash_withdrawal"
-  | "subscription_gym"
+  | "subscription"
+  | "fitness"
   | "ecommerce"
   | "pharmacy_health"
   | "spei_transfer"
@@ -18,24 +21,49 @@ export type Category =
 
 export interface CategorizedTransaction extends Transaction {
   category: Category;
+  explanation: CategoryExplanation;
 }
 
+// Display names (Spanish) in the order categories are listed in the UI
+export const CATEGORY_LABELS: Record<Category, string> = {
+  convenience_store: "Tiendita / Oxxo",
+  rideshare: "Uber / DiDi",
+  food_delivery: "Delivery",
+  restaurant_cafe: "Restaurantes y cafés",
+  supermarket: "Súper",
+  cash_withdrawal: "Retiro de efectivo",
+  subscription: "Suscripciones",
+  fitness: "Gym y deporte",
+  ecommerce: "Compras en línea",
+  pharmacy_health: "Farmacia y salud",
+  spei_transfer: "Transferencias",
+  bank_fee: "Comisiones",
+  gas_transport: "Gasolina y transporte",
+  education: "Educación",
+  other: "Otros",
+};
+
+export const ALL_CATEGORIES = Object.keys(CATEGORY_LABELS) as Category[];
+
 // ─── Keyword lists ────────────────────────────────────────────────────────────
+// Keywords match at the start of a word, ignoring case and accents: "farmacia"
+// matches "farmacias" and "comisión", but "mega" doesn't match "omega".
 // Special prefixes in keywords:
 //   *  → wildcard (e.g. "uber*eats" matches "uber eats", "uber*eats12345")
 //   ^  → must match at START of description (e.g. "^rest " won't match "interest")
+//   =  → whole word only (e.g. "=six" won't match "sixt"); combine as "^=" if needed
 
 const KEYWORDS: Record<Exclude<Category, "other">, string[]> = {
   food_delivery: [
     "uber eats", "ubereats", "uber*eats", "ubreats",
     "rappi",
     "didi food", "didifood", "didi*food",
-    "sin delantal", "justo", "cornershop",
+    "sin delantal", "=justo", "cornershop",
   ],
 
   // Rideshare: checked AFTER food_delivery. Excluded if desc contains "eats", "food", "rappi".
   rideshare: [
-    "uber", "didi", "cabify", "beat", "in driver", "indriver",
+    "uber", "didi", "cabify", "=beat", "in driver", "indriver",
   ],
 
   bank_fee: [
@@ -45,20 +73,27 @@ const KEYWORDS: Record<Exclude<Category, "other">, string[]> = {
   ],
 
   cash_withdrawal: [
-    "retiro", "cajero", "atm", "disposicion", "efectivo",
+    "retiro", "cajero", "=atm", "disposicion", "efectivo",
     "banamex atm", "hsbc atm", "bbva atm", "santander atm", "scotiabank atm",
   ],
 
   spei_transfer: [
     "spei", "transferencia", "traspaso", "envio", "pago a",
-    "codi", "codi pago",
-    "mercadopago", "mercado pago", "clip", "conekta",
+    "=codi", "codi pago",
+    "mercadopago", "mercado pago", "=clip", "conekta",
   ],
 
-  subscription_gym: [
-    "smartfit", "sport city", "sportcity", "gym", "gimnasio",
+  fitness: [
+    "smartfit", "smart fit", "sport city", "sportcity", "gym", "gimnasio",
+    "anytime fitness", "energy fitness", "crossfit", "^club deportivo", "yoga", "pilates",
+    "f45", "orangetheory", "totalpass", "=wellhub", "gympass", "strava",
+  ],
+
+  subscription: [
     "netflix", "spotify", "disney+", "disney", "hbo max", "hbo",
-    "apple", "google", "microsoft", "amazon prime", "paramount",
+    // Not bare "apple"/"google": Apple Pay and Google Pay merchants carry those too
+    "apple.com", "apple music", "apple tv", "itunes", "google one", "google play",
+    "google storage", "microsoft", "amazon prime", "paramount",
     "openai", "chatgpt", "claude", "dropbox", "icloud", "youtube premium",
     "zoom", "slack", "notion", "duolingo", "crunchyroll", "twitch",
     "plata+", "suscripcion plata", "storytel", "dochub",
@@ -69,15 +104,15 @@ const KEYWORDS: Record<Exclude<Category, "other">, string[]> = {
     "gasolineria", "gasolinera", "gasolina", "oxxo gas",
     "estacion de servicio", "estacion de gas", "estacion ",
     "^est ",
-    "pemex", "bp", "shell", "mobil",
-    "metro", "metrobus", "trolebus", "ecobici", "tren",
-    "gas",
+    "pemex", "=bp", "=shell", "=mobil",
+    "=metro", "metrobus", "trolebus", "ecobici", "=tren",
+    "=gas",
   ],
 
   // convenience_store before pharmacy_health so "farmacias guadalajara" beats "farmacia"
   convenience_store: [
     "oxxo", "7-eleven", "seven eleven", "7eleven", "7 eleven",
-    "circle k", "circlek", "six", "extra", "kiosko",
+    "circle k", "circlek", "=six", "=extra", "kiosko",
     "farmacias guadalajara", "farmacia guadalajara",
     "chedraui", "bodega aurrera", "aurrera", "walmart express",
     "walmartexpress", "seven 11",
@@ -86,7 +121,7 @@ const KEYWORDS: Record<Exclude<Category, "other">, string[]> = {
 
   // restaurant_cafe before supermarket (per spec)
   restaurant_cafe: [
-    "koi", "cafe", "coffee", "starbucks",
+    "=koi", "cafe", "coffee", "starbucks",
     "restaurant", "restaurante", "^rest ",
     "taco", "tacos", "sushi", "pizza", "burger", "hamburguesa",
     "subway", "kfc", "mcdonalds", "dominos", "vips", "sanborns",
@@ -97,7 +132,7 @@ const KEYWORDS: Record<Exclude<Category, "other">, string[]> = {
   supermarket: [
     "walmart", "sams club", "sam's", "costco", "soriana",
     "chedraui", "la comer", "city market", "fresko", "superama",
-    "heb", "selecto", "mega", "comercial mexicana",
+    "=heb", "selecto", "=mega", "comercial mexicana",
   ],
 
   pharmacy_health: [
@@ -108,10 +143,10 @@ const KEYWORDS: Record<Exclude<Category, "other">, string[]> = {
   ],
 
   ecommerce: [
-    "amazon", "mercado libre", "mercadolibre", "meli", "shein",
-    "aliexpress", "liverpool", "palacio de hierro", "zara",
+    "amazon", "mercado libre", "mercadolibre", "=meli", "shein",
+    "aliexpress", "liverpool", "palacio de hierro", "=zara",
     "h&m", "pull and bear", "bershka", "privalia", "linio",
-    "wish", "ebay", "paypal",
+    "=wish", "ebay", "paypal",
     "office depot", "officedepot", "fedex", "staples",
   ],
 
@@ -128,7 +163,8 @@ const PRIORITY: Exclude<Category, "other">[] = [
   "bank_fee",
   "cash_withdrawal",
   "spei_transfer",
-  "subscription_gym",
+  "fitness",
+  "subscription",
   "gas_transport",
   "convenience_store",
   "restaurant_cafe",
@@ -140,48 +176,218 @@ const PRIORITY: Exclude<Category, "other">[] = [
 
 // ─── Matching logic ───────────────────────────────────────────────────────────
 
-function kwMatches(desc: string, kw: string): boolean {
-  const anchored = kw.startsWith("^");
-  const base = anchored ? kw.slice(1) : kw;
+/** Lowercase without accents, so "Comisión" and "COMISION" compare equal */
+export function foldText(s: string): string {
+  return s.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+const kwCache = new Map<string, RegExp>();
+
+function kwRegex(kw: string): RegExp {
+  const cached = kwCache.get(kw);
+  if (cached) return cached;
+
+  let base = foldText(kw);
+  let anchored = false, strict = false;
+  for (;;) {
+    if (base.startsWith("^")) anchored = true;
+    else if (base.startsWith("=")) strict = true;
+    else break;
+    base = base.slice(1);
+  }
+
+  const escaped = base.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  // Boundaries only apply next to a letter or digit ("estacion " brings its own)
+  const start = anchored ? "^" : /^[a-z0-9]/.test(base) ? "(?<![a-z0-9])" : "";
+  const end = strict && /[a-z0-9]$/.test(base) ? "(?![a-z0-9])" : "";
+  const re = new RegExp(start + escaped + end);
+  kwCache.set(kw, re);
+  return re;
+}
+
+/** `desc` must already be folded with foldText() */
+export function kwMatches(desc: string, kw: string): boolean {
+  return kwRegex(kw).test(desc);
+}
+
+// ─── User rules ───────────────────────────────────────────────────────────────
+// Everything the user taught us runs before the built-in lists, most specific
+// first: exact-merchant rules, then merchant memory (categories picked by hand
+// in the review step), then keyword rules in the order given.
+
+export interface CategoryRule {
+  id?: string;                    // Supabase row id once saved
+  kind: "keyword" | "merchant";   // keyword: kwMatches syntax; merchant: whole description
+  pattern: string;
+  category: Category;
+}
+
+/** Folded, single-spaced description used for exact-merchant comparison */
+export function normalizeMerchant(description: string): string {
+  return foldText(description).replace(/\s+/g, " ").trim();
+}
+
+export interface CategorizerContext {
+  rules?: CategoryRule[];
+  memory?: MerchantMemory;
+}
+
+// ─── Explanations ─────────────────────────────────────────────────────────────
+
+export type MatchSource = "merchant_rule" | "memory" | "keyword_rule" | "builtin" | "manual" | "none";
 
-  if (base.includes("*")) {
-    const escaped = base.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
-    const pattern = (anchored ? "^" : "") + escaped.replace(/\*/g, ".*");
-    return new RegExp(pattern).test(desc);
+export interface CategoryMatch {
+  category: Category;
+  keyword: string;
+}
+
+export interface CategoryExplanation {
+  source: MatchSource;
+  keyword?: string;            // keyword, rule pattern or remembered merchant that decided
+  priority?: number;           // 1-based position in PRIORITY, for built-in matches
+  runnersUp: CategoryMatch[];  // other built-in categories that also matched, in priority order
+  notes: string[];             // special cases that changed the outcome
+}
+
+const SOURCE_LABELS: Record<MatchSource, string> = {
+  merchant_rule: "Tu regla de comercio",
+  memory: "Lo corregiste antes",
+  keyword_rule: "Tu regla",
+  builtin: "Palabra clave",
+  manual: "Elegida a mano",
+  none: "Ninguna palabra clave coincidió",
+};
+
+/** One-line Spanish explanation for tooltips */
+export function describeExplanation(e: CategoryExplanation): string {
+  const parts = [SOURCE_LABELS[e.source] + (e.keyword ? ` "${e.keyword}"` : "")];
+  if (e.priority) parts[0] += ` (prioridad ${e.priority} de ${PRIORITY.length})`;
+  if (e.runnersUp.length) {
+    parts.push("También coincidió: " + e.runnersUp.map(m => `${CATEGORY_LABELS[m.category]} ("${m.keyword}")`).join(", "));
   }
+  return [...parts, ...e.notes].join(". ");
+}
+
+// ─── Categorize ───────────────────────────────────────────────────────────────
 
-  if (anchored) return desc.startsWith(base);
-  return desc.includes(base);
+function matchUser(d: string, { rules = [], memory = {} }: CategorizerContext): (CategoryMatch & { source: MatchSource }) | null {
+  const merchant = normalizeMerchant(d);
+  const exact = rules.find(r => r.kind === "merchant" && normalizeMerchant(r.pattern) === merchant);
+  if (exact) return { source: "merchant_rule", category: exact.category, keyword: exact.pattern };
+  const learned = lookupMerchant(memory, d);
+  if (learned) return { source: "memory", category: learned.category, keyword: learned.merchant };
+  const kw = rules.find(r => r.kind === "keyword" && r.pattern.trim() && kwMatches(d, r.pattern.trim()));
+  return kw ? { source: "keyword_rule", category: kw.category, keyword: kw.pattern } : null;
 }
 
-function categorize(description: string): Category {
-  const d = description.toLowerCase();
+const FOOD_HINTS = ["eats", "food", "rappi"];
 
+/** Every built-in category with a matching keyword, in priority order */
+function builtinMatches(d: string, notes: string[]): CategoryMatch[] {
+  const matches: CategoryMatch[] = [];
   for (const cat of PRIORITY) {
+    const keyword = KEYWORDS[cat].find(kw => kwMatches(d, kw));
+    if (!keyword) continue;
     // Rideshare exclusion: skip if description looks food-related
-    if (cat === "rideshare" && (d.includes("eats") || d.includes("food") || d.includes("rappi"))) {
+    const food = cat === "rideshare" && FOOD_HINTS.find(h => d.includes(h));
+    if (food) {
+      notes.push(`"${keyword}" no cuenta como Uber / DiDi porque menciona "${food}"`);
       continue;
     }
-    if (KEYWORDS[cat].some(kw => kwMatches(d, kw))) {
-      return cat;
-    }
+    matches.push({ category: cat, keyword });
+  }
+  return matches;
+}
+
+function categorize(description: string, ctx: CategorizerContext = {}): {
+  category: Category;
+  explanation: CategoryExplanation;
+} {
+  const d = foldText(description);
+  const notes: string[] = [];
+  const builtin = builtinMatches(d, notes);
+
+  const taught = matchUser(d, ctx);
+  if (taught) {
+    return {
+      category: taught.category,
+      explanation: {
+        source: taught.source,
+        keyword: taught.keyword,
+        runnersUp: builtin.filter(m => m.category !== taught.category),
+        notes,
+      },
+    };
   }
 
-  return "other";
+  const [winner, ...runnersUp] = builtin;
+  if (!winner) return { category: "other", explanation: { source: "none", runnersUp: [], notes } };
+  return {
+    category: winner.category,
+    explanation: {
+      source: "builtin",
+      keyword: winner.keyword,
+      priority: PRIORITY.indexOf(winner.category as Exclude<Category, "other">) + 1,
+      runnersUp,
+      notes,
+    },
+  };
 }
 
 // ─── Public API ───────────────────────────────────────────────────────────────
 
-export function categorizeTransactions(txns: Transaction[]): CategorizedTransaction[] {
-  return txns.map(t => ({ ...t, category: categorize(t.description) }));
+export function categorizeTransactions(
+  txns: Transaction[],
+  ctx: CategorizerContext = {}
+): CategorizedTransaction[] {
+  return txns.map(t => ({ ...t, ...categorize(t.description, ctx) }));
 }
 
-export function logCategorySummary(txns: CategorizedTransaction[]): void {
-  const counts: Partial<Record<Category, number>> = {};
+export interface CategorySummary {
+  category: Category;
+  count: number;
+  spent: number;                     // sum of charges, positive
+  keywords: Record<string, number>;  // deciding keyword/rule → times it decided
+  contested: number;                 // rows where another category also matched
+}
+
+/** Per-category breakdown with what decided each bucket, most used first */
+export function summarizeCategories(txns: CategorizedTransaction[]): CategorySummary[] {
+  const byCat = new Map<Category, CategorySummary>();
   for (const t of txns) {
-    counts[t.category] = (counts[t.category] ?? 0) + 1;
+    const s = byCat.get(t.category) ??
+      { category: t.category, count: 0, spent: 0, keywords: {}, contested: 0 };
+    s.count++;
+    if (t.amount < 0) s.spent += Math.abs(t.amount);
+    const key = t.explanation.keyword ?? SOURCE_LABELS[t.explanation.source];
+    s.keywords[key] = (s.keywords[key] ?? 0) + 1;
+    if (t.explanation.runnersUp.length) s.contested++;
+    byCat.set(t.category, s);
+  }
+  return [...byCat.values()].sort((a, b) => b.count - a.count);
+}
+
+export function logCategorySummary(txns: CategorizedTransaction[]): void {
+  console.table(
+    summarizeCategories(txns).map(s => ({
+      categoría: s.category,
+      movimientos: s.count,
+      gastado: Math.round(s.spent),
+      disputadas: s.contested,
+      palabras: Object.entries(s.keywords)
+        .sort((a, b) => b[1] - a[1])
+        .map(([k, n]) => `${k} ×${n}`)
+        .join(", "),
+    }))
+  );
+
+  const contested = txns.filter(t => t.explanation.runnersUp.length);
+  if (contested.length) {
+    console.log(
+      `⚖️ Con más de una categoría posible (${contested.length}):`,
+      contested.map(t => `${t.description} → ${t.category} · ${describeExplanation(t.explanation)}`)
+    );
   }
-  console.log("📊 Conteo por categoría:", counts);
 
   const others = txns.filter(t => t.category === "other");
   if (others.length) {
@@ -0,0 +1,114 @@
+// Page-aware chunking for LLM extraction. A busy three-month statement doesn't
+// fit in one response, so /api/parse-pdf extracts chunk by chunk. Each chunk
+// repeats the last few lines of the previous one so a transaction cut at the
+// border is seen whole at least once; mergeChunks() drops the repeats.
+
+import type { Transaction } from "./parser";
+
+export interface TextChunk {
+  text: string;
+  firstPage: number;   // 1-based, inclusive
+  lastPage: number;
+}
+
+// ~8k characters of statement text stays well under max_tokens of JSON output
+const CHUNK_CHARS = 8000;
+const OVERLAP_LINES = 3;
+
+/** Split one page's lines into pieces of at most CHUNK_CHARS */
+function splitLines(lines: string[]): string[][] {
+  const pieces: string[][] = [];
+  let cur: string[] = [];
+  let size = 0;
+  for (const line of lines) {
+    if (size + line.length > CHUNK_CHARS && cur.length) {
+      pieces.push(cur);
+      cur = [];
+      size = 0;
+    }
+    cur.push(line);
+    size += line.length + 1;
+  }
+  if (cur.length) pieces.push(cur);
+  return pieces;
+}
+
+export function chunkPages(pages: string[]): TextChunk[] {
+  type Piece = { lines: string[]; page: number };
+  const pieces: Piece[] = pages.flatMap((p, i) =>
+    splitLines(p.split("\n")).map(lines => ({ lines, page: i + 1 }))
+  );
+
+  const chunks: TextChunk[] = [];
+  let carry: string[] = [];
+  let cur: Piece[] = [];
+  let size = 0;
+
+  const flush = () => {
+    const lines = cur.flatMap(p => p.lines);
+    chunks.push({
+      text: [...carry, ...lines].join("\n"),
+      firstPage: cur[0].page,
+      lastPage: cur[cur.length - 1].page,
+    });
+    carry = lines.slice(-OVERLAP_LINES);
+    cur = [];
+    size = 0;
+  };
+
+  for (const piece of pieces) {
+    const pieceSize = piece.lines.join("\n").length + 1;
+    if (cur.length && size + pieceSize > CHUNK_CHARS) flush();
+    cur.push(piece);
+    size += pieceSize;
+  }
+  if (cur.length) flush();
+
+  return chunks;
+}
+
+/** Halve a chunk whose extraction hit max_tokens; null when it can't shrink further */
+export function splitChunk(chunk: TextChunk): [TextChunk, TextChunk] | null {
+  const lines = chunk.text.split("\n");
+  if (lines.length < 2 * OVERLAP_LINES) return null;
+  const mid = Math.ceil(lines.length / 2);
+  return [
+    { ...chunk, text: lines.slice(0, mid).join("\n") },
+    { ...chunk, text: lines.slice(mid - OVERLAP_LINES).join("\n") },
+  ];
+}
+
+function dedupeKey(t: Transaction): string {
+  const desc = t.description.toLowerCase().replace(/[^a-z0-9]/g, "").slice(0, 8);
+  return `${t.date}|${t.amount.toFixed(2)}|${desc}`;
+}
+
+/**
+ * Concatenate per-chunk results in order. A chunk opens with the last
+ * OVERLAP_LINES lines of the previous one, so only its first few transactions
+ * can repeat that chunk's last few; a match there is dropped. Everything else
+ * is kept, so two genuine $50 Oxxo charges on the same day survive unless
+ * both sit inside the overlap.
+ */
+export function mergeChunks(results: Transaction[][]): { transactions: Transaction[]; duplicates: number } {
+  const transactions: Transaction[] = [];
+  let duplicates = 0;
+  let tail = new Map<string, number>();
+
+  for (const chunk of results) {
+    chunk.forEach((t, i) => {
+      const key = dedupeKey(t);
+      const left = i < OVERLAP_LINES ? tail.get(key) ?? 0 : 0;
+      if (left > 0) {
+        tail.set(key, left - 1);
+        duplicates++;
+        return;
+      }
+      transactions.push(t);
+    });
+    tail = new Map();
+    for (const t of chunk.slice(-OVERLAP_LINES)) tail.set(dedupeKey(t), (tail.get(dedupeKey(t)) ?? 0) + 1);
+  }
+
+  return { transactions, duplicates };
+}
@@ -0,0 +1,115 @@
+// Server-side extraction backends for /api/parse-pdf. The route only sees an
+// ExtractionProvider; which one it gets, plus model and prompt, comes from
+// environment variables so tests and offline dev can use canned responses:
+//
+//   PARSE_PDF_PROVIDER      "anthropic" (default) | "mock"
+//   PARSE_PDF_MODEL         model id for the Anthropic provider
+//   PARSE_PDF_MAX_TOKENS    output budget per chunk
+//   PARSE_PDF_PROMPT_FILE   prompt template; "{{text}}" is replaced by the chunk
+//   PARSE_PDF_FIXTURES      directory of canned responses for the mock provider
+
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
+import Anthropic from "@anthropic-ai/sdk";
+
+export interface ExtractionResponse {
+  text: string;        // raw model output, expected to contain a JSON array
+  truncated: boolean;  // output hit the token budget
+}
+
+export interface ExtractionProvider {
+  name: string;
+  extract(statementText: string): Promise<ExtractionResponse>;
+}
+
+export interface ExtractionConfig {
+  provider: "anthropic" | "mock";
+  model: string;
+  maxTokens: number;
+  promptFile?: string;
+  fixturesDir: string;
+}
+
+const DEFAULT_PROMPT =
+  `Extract all transactions from this bank statement. Return a JSON array only, no explanation. ` +
+  `Each item must have: date (YYYY-MM-DD), amount (number, negative for expenses), ` +
+  `description (merchant name only, no reference codes). Statement text: {{text}}`;
+
+export function loadExtractionConfig(env: NodeJS.ProcessEnv = process.env): ExtractionConfig {
+  const provider = env.PARSE_PDF_PROVIDER === "mock" ? "mock" : "anthropic";
+  return {
+    provider,
+    model: env.PARSE_PDF_MODEL || "claude-sonnet-4-6",
+    maxTokens: parseInt(env.PARSE_PDF_MAX_TOKENS ?? "", 10) || 4096,
+    promptFile: env.PARSE_PDF_PROMPT_FILE || undefined,
+    fixturesDir: env.PARSE_PDF_FIXTURES || path.join(process.cwd(), "fixtures", "parse-pdf"),
+  };
+}
+
+// ─── Providers ────────────────────────────────────────────────────────────────
+
+function anthropicProvider(config: ExtractionConfig, prompt: string): ExtractionProvider {
+  // Created on first use so the mock provider never needs an API key
+  let client: Anthropic | null = null;
+
+  return {
+    name: `anthropic:${config.model}`,
+    async extract(statementText) {
+      client ??= new Anthropic();
+      const message = await client.messages.create({
+        model: config.model,
+        max_tokens: config.maxTokens,
+        messages: [{ role: "user", content: prompt.replace("{{text}}", statementText) }],
+      });
+      const block = message.content[0];
+      return {
+        text: block?.type === "text" ? block.text : "",
+        truncated: message.stop_reason === "max_tokens",
+      };
+    },
+  };
+}
+
+/** Fixture name for a chunk: first 16 hex chars of its SHA-256 */
+export function fixtureKey(statementText: string): string {
+  return createHash("sha256").update(statementText).digest("hex").slice(0, 16);
+}
+
+/**
+ * Serves `<fixturesDir>/<fixtureKey>.txt` for a chunk, falling back to
+ * `default.txt`. Deterministic and offline; the prompt is never used.
+ */
+function mockProvider(config: ExtractionConfig): ExtractionProvider {
+  return {
+    name: `mock:${config.fixturesDir}`,
+    async extract(statementText) {
+      const key = fixtureKey(statementText);
+      for (const file of [`${key}.txt`, "default.txt"]) {
+        try {
+          const text = await readFile(path.join(config.fixturesDir, file), "utf-8");
+          if (file === "default.txt") console.log(`mock provider: no ${key}.txt, using default.txt`);
+          return { text, truncated: false };
+        } catch {
+          // try the next one
+        }
+      }
+      throw new Error(`No fixture for chunk ${key} in ${config.fixturesDir}`);
+    },
+  };
+}
+
+let cached: Promise<ExtractionProvider> | null = null;
+
+/** Provider for the current environment; built once per server process */
+export function getExtractionProvider(): Promise<ExtractionProvider> {
+  cached ??= (async () => {
+    const config = loadExtractionConfig();
+    if (config.provider === "mock") return mockProvider(config);
+    const prompt = config.promptFile ? await readFile(config.promptFile, "utf-8") : DEFAULT_PROMPT;
+    return anthropicProvider(config, prompt);
+  })();
+  // Don't cache a failure (e.g. a missing prompt file) for the process lifetime
+  cached.catch(() => { cached = null; });
+  return cached;
+}
@@ -0,0 +1,142 @@
+// Number and date parsing for bank exports. Mexican banks mostly write
+// "1,234.56" and DD/MM/YYYY, but enough of them (and most Excel exports with a
+// Spanish locale) use "1.234,56", month abbreviations or two-digit years.
+// Separator and day/month order are decided per column, not per cell.
+
+export type DecimalSeparator = "." | ",";
+export type DateOrder = "dmy" | "mdy";
+
+// ─── Amounts ─────────────────────────────────────────────────────────────────
+
+/**
+ * Decide the decimal separator from every value in an amount column. A cell
+ * only votes when it's unambiguous: "1.234,56" (both present, last one wins)
+ * or "12,5" / "12.50" (one or two trailing digits). "1,234" abstains.
+ */
+export function detectDecimalSeparator(samples: string[]): DecimalSeparator {
+  let dot = 0, comma = 0;
+  for (const raw of samples) {
+    const s = raw.replace(/[^\d.,]/g, "");
+    const lastDot = s.lastIndexOf(".");
+    const lastComma = s.lastIndexOf(",");
+    if (lastDot >= 0 && lastComma >= 0) {
+      if (lastComma > lastDot) comma++;
+      else dot++;
+    } else if (/,\d{1,2}$/.test(s)) comma++;
+    else if (/\.\d{1,2}$/.test(s)) dot++;
+  }
+  return comma > dot ? "," : ".";
+}
+
+/**
+ * Parse an amount like "$1,234.56", "1.234,56", "-120", "120.00-", "(120.00)",
+ * "120.00 CR" or "120.00 DR". Returns NaN when nothing numeric is left.
+ */
+export function parseAmount(s: string, decimal: DecimalSeparator = "."): number {
+  let t = s.trim().toUpperCase();
+  if (!t) return NaN;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(t)) { negative = true; t = t.slice(1, -1); }
+  if (/DR$/.test(t)) { negative = true; t = t.slice(0, -2); }
+  else if (/CR$/.test(t)) t = t.slice(0, -2);
+  t = t.replace(/MXN|MN|\$|\s/g, "");
+  if (t.endsWith("-")) { negative = !negative; t = t.slice(0, -1); }
+  if (t.startsWith("-")) { negative = !negative; t = t.slice(1); }
+  else if (t.startsWith("+")) t = t.slice(1);
+
+  const thousands = decimal === "," ? "." : ",";
+  t = t.split(thousands).join("");
+  if (decimal === ",") t = t.replace(",", ".");
+  if (!/^\d*\.?\d+$/.test(t)) return NaN;
+
+  const n = parseFloat(t);
+  return negative ? -n : n;
+}
+
+// ─── Dates ───────────────────────────────────────────────────────────────────
+
+const MONTHS: Record<string, number> = {
+  ene: 1, feb: 2, mar: 3, abr: 4, may: 5, jun: 6,
+  jul: 7, ago: 8, sep: 9, set: 9, oct: 10, nov: 11, dic: 12,
+  // English abbreviations that differ from the Spanish ones
+  jan: 1, apr: 4, aug: 8, dec: 12,
+};
+
+/** Month from "1", "01", "ene", "Enero", "SEPT" → 1–12, or 0 if unrecognized */
+export function parseMonth(s: string): number {
+  const t = s.trim().toLowerCase().normalize("NFD").replace(/[\u0300-\u036f.]/g, "");
+  if (/^\d{1,2}$/.test(t)) {
+    const m = parseInt(t, 10);
+    return m >= 1 && m <= 12 ? m : 0;
+  }
+  return MONTHS[t.slice(0, 3)] ?? 0;
+}
+
+/** Two-digit years are always this century: bank statements don't go back to 1999 */
+function fullYear(y: string): number {
+  const n = parseInt(y, 10);
+  return y.length <= 2 ? 2000 + n : n;
+}
+
+function isoDate(y: number, m: number, d: number): string | null {
+  if (!y || m < 1 || m > 12 || d < 1) return null;
+  const daysInMonth = new Date(y, m, 0).getDate();
+  if (d > daysInMonth) return null;
+  return `${y}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+/**
+ * Decide day/month order from a whole date column. Only numeric DD/MM vs MM/DD
+ * is ambiguous; a first part above 12 settles it as dmy, a second part above
+ * 12 as mdy. Mexican statements default to dmy.
+ */
+export function detectDateOrder(samples: string[]): DateOrder {
+  let dmy = 0, mdy = 0;
+  for (const s of samples) {
+    const m = s.trim().match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.]\d{2,4}/);
+    if (!m) continue;
+    if (parseInt(m[1], 10) > 12) dmy++;
+    else if (parseInt(m[2], 10) > 12) mdy++;
+  }
+  return mdy > dmy ? "mdy" : "dmy";
+}
+
+// Excel stores dates as days since 1899-12-30 (the 1900 leap-year bug baked in)
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+/** Excel serial date (45662, or 45662.5 with a time) → YYYY-MM-DD */
+export function excelSerialToISO(serial: number): string {
+  return new Date(EXCEL_EPOCH + Math.floor(serial) * 86400000).toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a statement date into YYYY-MM-DD. Accepts DD/MM/YYYY, DD-MM-YY,
+ * YYYY-MM-DD, YYYY/MM/DD, "05-ENE-2026", "05/ene/26", "5 ene 2026" and Excel
+ * serial numbers. A trailing time ("05/01/2026 14:32") is ignored.
+ */
+export function parseDate(s: string, order: DateOrder = "dmy"): string | null {
+  const t = s.trim().split(/\s+\d{1,2}:\d{2}/)[0];
+
+  // 5-digit serials span 1927–2173; no other date format is a bare 5-digit number
+  if (/^\d{5}(\.\d+)?$/.test(t)) return excelSerialToISO(parseFloat(t));
+
+  const ymd = t.match(/^(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})$/);
+  if (ymd) return isoDate(+ymd[1], +ymd[2], +ymd[3]);
+
+  const num = t.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2}|\d{4})$/);
+  if (num) {
+    const [a, b] = [+num[1], +num[2]];
+    return order === "mdy"
+      ? isoDate(fullYear(num[3]), a, b)
+      : isoDate(fullYear(num[3]), b, a);
+  }
+
+  const named = t.match(/^(\d{1,2})[\/\-.\s]+([a-záéíóú]{3,10})\.?[\/\-.\s]+(\d{2}|\d{4})$/i);
+  if (named) {
+    const month = parseMonth(named[2]);
+    return month ? isoDate(fullYear(named[3]), month, +named[1]) : null;
+  }
+
+  return null;
+}
@@ -0,0 +1,76 @@
+// Persistence for results: one quincena_results row per session and period
+// (schema in periods.ts). Read back for the trends chart, award streaks,
+// subscription detection and the awards that compare against your own past.
+
+import { supabase } from "./supabase";
+import type { Period } from "./periods";
+import type { ChargeRecord } from "./recurring";
+import { storedCategory } from "./rules";
+
+export interface HistoryRow {
+  period: Period;
+  total_spent: number;
+  awards_won: string[];
+  category_totals: Record<string, number> | null;
+  charges: ChargeRecord[] | null;
+}
+
+export interface SavedResult extends HistoryRow {
+  top_category: string;
+  transaction_count: number;
+}
+
+interface StoredRow extends Omit<HistoryRow, "period"> {
+  period: string;
+  period_start: string;
+  period_end: string;
+}
+
+function toHistoryRow({ period, period_start, period_end, category_totals, ...rest }: StoredRow): HistoryRow {
+  // Renamed categories keep their old key in rows saved before the rename
+  const totals: Record<string, number> = {};
+  for (const [key, value] of Object.entries(category_totals ?? {})) {
+    const category = storedCategory(key) ?? key;
+    totals[category] = (totals[category] ?? 0) + value;
+  }
+  return {
+    ...rest,
+    period: { key: period, start: period_start, end: period_end },
+    category_totals: category_totals ? totals : null,
+  };
+}
+
+/** Every saved period for the session, oldest first */
+export async function loadHistory(sessionId: string): Promise<HistoryRow[]> {
+  const { data, error } = await supabase
+    .from("quincena_results")
+    .select("period, period_start, period_end, total_spent, awards_won, category_totals, charges")
+    .eq("session_id", sessionId)
+    .order("period_start", { ascending: true });
+
+  if (error) {
+    console.error("Supabase history error:", error.message);
+    return [];
+  }
+  return ((data ?? []) as StoredRow[]).map(toHistoryRow);
+}
+
+/** Upserts one row per period; uploading a period again replaces it */
+export async function saveResults(sessionId: string, results: SavedResult[]): Promise<boolean> {
+  const { error } = await supabase
+    .from("quincena_results")
+    .upsert(
+      results.map(({ period, ...rest }) => ({
+        ...rest,
+        session_id: sessionId,
+        period: period.key,
+        period_start: period.start,
+        period_end: period.end,
+        month: period.end.slice(0, 7),
+      })),
+      { onConflict: "session_id,period" }
+    );
+
+  if (error) console.error("Supabase upsert error:", error.message);
+  return !error;
+}
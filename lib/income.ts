@@ -0,0 +1,34 @@
+// Monthly income estimate from the statement itself, used to scale award
+// thresholds when the user didn't type their salary.
+
+import { foldText, kwMatches } from "./categorizer";
+import type { CategorizedTransaction } from "./categorizer";
+
+// Salary often arrives by SPEI, so these count even in spei_transfer
+const SALARY = ["nomina", "salario", "sueldo", "honorarios", "pago de nomina", "dispersion"];
+
+// A statement shorter than this still gets scaled as if it were this long;
+// two deposits three days apart aren't a monthly rate
+const MIN_SPAN_DAYS = 14;
+
+/** A credit whose description says it's pay: nómina, sueldo, honorarios… */
+export function isSalaryDeposit(t: CategorizedTransaction): boolean {
+  return t.amount > 0 && SALARY.some(kw => kwMatches(foldText(t.description), kw));
+}
+
+/**
+ * Sum of deposits that look like income: every credit except transfers,
+ * plus transfers that say nómina/sueldo. Expects transactions that already
+ * left out own-account moves and refunds (effectiveTransactions()).
+ * Scaled to 30.4 days by the span the statement covers; null without deposits.
+ */
+export function detectMonthlyIncome(txns: CategorizedTransaction[]): number | null {
+  if (!txns.length) return null;
+  const deposits = txns.filter(t => t.amount > 0 && (t.category !== "spei_transfer" || isSalaryDeposit(t)));
+  if (!deposits.length) return null;
+
+  const dates = txns.map(t => t.date).sort();
+  const span = (Date.parse(dates[dates.length - 1]) - Date.parse(dates[0])) / 86400000 + 1;
+  const total = deposits.reduce((s, t) => s + t.amount, 0);
+  return Math.round((total * 30.4) / Math.max(span, MIN_SPAN_DAYS));
+}
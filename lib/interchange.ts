@@ -0,0 +1,253 @@
+// Structured statement formats: OFX/QFX (banks and aggregator apps), ISO 20022
+// CAMT.053 and SWIFT MT940 (business accounts). These carry posted date, sign
+// and payee as separate fields, so there's no column guessing — only the
+// quirks of each format. All three produce the same ParseResult as parseCSV,
+// with `balances` holding only what the file states (parseFile derives the rest).
+
+import { detectDecimalSeparator, parseAmount } from "./formats";
+import type { ParseFormat, ParseResult, SkipReason, Transaction } from "./parser";
+
+// ─── Shared ───────────────────────────────────────────────────────────────────
+
+function lineAt(text: string, offset: number): number {
+  let n = 1;
+  for (let i = 0; i < offset && i < text.length; i++) if (text[i] === "\n") n++;
+  return n;
+}
+
+/** Accumulates rows the same way parseCSV does */
+function collector(format: ParseFormat) {
+  const result: ParseResult = {
+    transactions: [], diagnostics: [], skipped: [], format, balances: {}, warnings: [],
+  };
+  return {
+    result,
+    add(t: Transaction, line?: number) {
+      const warnings = t.description ? [] : ["Sin descripción"];
+      result.transactions.push(t);
+      result.diagnostics.push({ line, confidence: warnings.length ? 0.75 : 1, warnings });
+    },
+    skip(line: number, reason: SkipReason, detail: string, raw: string) {
+      result.skipped.push({ line, reason, detail, raw: raw.slice(0, 200) });
+    },
+  };
+}
+
+function isoFromCompact(s: string): string | null {
+  // YYYYMMDD, optionally followed by time and timezone (OFX) — only the date matters
+  const m = s.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : null;
+}
+
+// ─── OFX / QFX ────────────────────────────────────────────────────────────────
+// OFX 1.x is SGML where leaf tags are never closed ("<TRNAMT>-120.00"); 2.x is
+// XML. Reading a leaf as "text up to the next tag or newline" handles both.
+
+function ofxTag(block: string, tag: string): string {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return m ? m[1].trim() : "";
+}
+
+export function parseOFX(text: string): ParseResult {
+  // OFX amounts are always "." decimal, but some Mexican exports use ","
+  const decimal = detectDecimalSeparator(
+    [...text.matchAll(/<(?:TRNAMT|BALAMT)>([^<\r\n]*)/gi)].map(m => m[1])
+  );
+  const c = collector({ source: "ofx", decimal });
+  const re = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi;
+
+  for (const m of text.matchAll(re)) {
+    const block = m[1];
+    const line = lineAt(text, m.index ?? 0);
+
+    const date = isoFromCompact(ofxTag(block, "DTPOSTED"));
+    if (!date) { c.skip(line, "bad_date", "Fecha no reconocida", block); continue; }
+
+    const rawAmt = ofxTag(block, "TRNAMT");
+    const amount = parseAmount(rawAmt, decimal);
+    if (!rawAmt) { c.skip(line, "no_amount", "Sin monto", block); continue; }
+    if (isNaN(amount)) { c.skip(line, "bad_amount", "Monto no reconocido", block); continue; }
+
+    // Payee name is the cleanest field; MEMO often holds the reference text
+    const description = ofxTag(block, "NAME") || ofxTag(block, "MEMO") || ofxTag(block, "TRNTYPE");
+    c.add({ date, amount, description }, line);
+  }
+
+  // OFX only states the balance at the end (LEDGERBAL); the opening follows from it
+  const ledger = text.match(/<LEDGERBAL>([\s\S]*?)(?=<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|$)/i);
+  const closing = ledger ? parseAmount(ofxTag(ledger[1], "BALAMT"), decimal) : NaN;
+  if (!isNaN(closing)) c.result.balances.closing = closing;
+
+  if (!c.result.transactions.length && !c.result.skipped.length) {
+    c.result.warnings.push("El archivo OFX no contiene movimientos (<STMTTRN>).");
+  }
+  return c.result;
+}
+
+// ─── CAMT.053 ─────────────────────────────────────────────────────────────────
+
+/** First descendant element matching a path of local names, namespace-agnostic */
+function find(el: Element, ...path: string[]): Element | null {
+  let cur: Element | null = el;
+  for (const name of path) {
+    if (!cur) return null;
+    cur = cur.getElementsByTagNameNS("*", name)[0] ?? null;
+  }
+  return cur;
+}
+
+function text(el: Element, ...path: string[]): string {
+  return find(el, ...path)?.textContent?.trim() ?? "";
+}
+
+export function isCamt053(xml: string): boolean {
+  return /camt\.053|<(\w+:)?BkToCstmrStmt\b/.test(xml);
+}
+
+// Balance type codes: opening booked (or previous closing) and closing booked
+const CAMT_OPENING = ["OPBD", "PRCD"];
+const CAMT_CLOSING = ["CLBD"];
+
+export function parseCAMT053(xml: string): ParseResult {
+  const c = collector({ source: "camt053" });
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) {
+    c.result.warnings.push("El XML no es válido.");
+    return c.result;
+  }
+
+  // Line of each <Ntry> in source order, for the report
+  const entryLines = [...xml.matchAll(/<(\w+:)?Ntry[\s>]/g)].map(m => lineAt(xml, m.index ?? 0));
+  const entries = Array.from(doc.getElementsByTagNameNS("*", "Ntry"));
+
+  entries.forEach((e, i) => {
+    const line = entryLines[i] ?? 0;
+    const raw = e.textContent?.replace(/\s+/g, " ") ?? "";
+
+    const dateStr = text(e, "BookgDt", "Dt") || text(e, "BookgDt", "DtTm") ||
+      text(e, "ValDt", "Dt") || text(e, "ValDt", "DtTm");
+    const date = /^\d{4}-\d{2}-\d{2}/.test(dateStr) ? dateStr.slice(0, 10) : null;
+    if (!date) return c.skip(line, "bad_date", "Fecha no reconocida", raw);
+
+    const amtStr = text(e, "Amt");
+    const amt = parseFloat(amtStr);
+    if (!amtStr) return c.skip(line, "no_amount", "Sin monto", raw);
+    if (isNaN(amt)) return c.skip(line, "bad_amount", "Monto no reconocido", raw);
+
+    // CdtDbtInd is the direction of this entry; a reversal (RvslInd) of a
+    // debit is already booked as CRDT, so it needs no second flip
+    const debit = text(e, "CdtDbtInd") === "DBIT";
+    const amount = (debit ? -1 : 1) * Math.abs(amt);
+
+    // Counterparty: who we paid on a debit, who paid us on a credit
+    const party = debit
+      ? text(e, "RltdPties", "Cdtr", "Nm") || text(e, "RltdPties", "Cdtr", "Pty", "Nm")
+      : text(e, "RltdPties", "Dbtr", "Nm") || text(e, "RltdPties", "Dbtr", "Pty", "Nm");
+    const description = party || text(e, "RmtInf", "Ustrd") || text(e, "AddtlNtryInf");
+
+    c.add({ date, amount, description }, line);
+  });
+
+  for (const b of Array.from(doc.getElementsByTagNameNS("*", "Bal"))) {
+    const code = text(b, "Tp", "CdOrPrtry", "Cd");
+    const amt = parseFloat(text(b, "Amt"));
+    if (isNaN(amt)) continue;
+    const value = (text(b, "CdtDbtInd") === "DBIT" ? -1 : 1) * Math.abs(amt);
+    // Statements list OPBD before PRCD when they carry both; keep the first
+    if (CAMT_OPENING.includes(code)) c.result.balances.opening ??= value;
+    if (CAMT_CLOSING.includes(code)) c.result.balances.closing ??= value;
+  }
+
+  if (!entries.length) c.result.warnings.push("El archivo CAMT.053 no contiene movimientos (<Ntry>).");
+  return c.result;
+}
+
+// ─── MT940 ────────────────────────────────────────────────────────────────────
+
+// :61:YYMMDD[MMDD](C|D|RC|RD)[funds code]amount(N|F|S)xxx reference
+const MT940_61 = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+(?:,\d*)?)([NFS][A-Z0-9]{3})?(.*)$/;
+
+// :60F:/:62F: balance: C|D, YYMMDD, currency, amount
+const MT940_BALANCE = /^(C|D)(\d{6})([A-Z]{3})(\d+(?:,\d*)?)/;
+
+function mt940Balance(value: string): number | undefined {
+  const m = value.trim().match(MT940_BALANCE);
+  if (!m) return undefined;
+  const amount = parseFloat(m[4].replace(",", "."));
+  return m[1] === "D" ? -amount : amount;
+}
+
+/** Payee from a :86: narrative: German ?32/?33 subfields, /NAME/ tags, or the text itself */
+function mt940Narrative(s: string): string {
+  const flat = s.replace(/\r?\n/g, "");
+  if (/\?\d{2}/.test(flat)) {
+    const fields = new Map([...flat.matchAll(/\?(\d{2})([^?]*)/g)].map(m => [m[1], m[2].trim()]));
+    const name = [fields.get("32"), fields.get("33")].filter(Boolean).join(" ");
+    const purpose = [20, 21, 22, 23].map(n => fields.get(String(n))).filter(Boolean).join(" ");
+    return name || purpose;
+  }
+  const tagged = flat.match(/\/NAME\/([^/]+)/);
+  if (tagged) return tagged[1].trim();
+  return flat.trim();
+}
+
+export function parseMT940(text: string): ParseResult {
+  const c = collector({ source: "mt940" });
+  const lines = text.split(/\r?\n/);
+
+  // Fold continuation lines into their :tag: so :86: narratives stay whole
+  const fields: { tag: string; value: string; line: number }[] = [];
+  lines.forEach((l, i) => {
+    const m = l.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (m) fields.push({ tag: m[1], value: m[2], line: i + 1 });
+    else if (fields.length && l.trim() && !/^-\}?$/.test(l.trim())) {
+      fields[fields.length - 1].value += "\n" + l;
+    }
+  });
+
+  let pending: { t: Transaction; line: number } | null = null;
+  const flush = () => {
+    if (pending) c.add(pending.t, pending.line);
+    pending = null;
+  };
+
+  for (const f of fields) {
+    // F = first/final, M = intermediate page of a long statement: the first
+    // opening and the last closing span the whole file
+    if (f.tag === "60F" || f.tag === "60M") {
+      c.result.balances.opening ??= mt940Balance(f.value);
+      continue;
+    }
+    if (f.tag === "62F" || f.tag === "62M") {
+      c.result.balances.closing = mt940Balance(f.value) ?? c.result.balances.closing;
+      continue;
+    }
+    if (f.tag === "86" && pending) {
+      pending.t.description = mt940Narrative(f.value) || pending.t.description;
+      flush();
+      continue;
+    }
+    if (f.tag !== "61") continue;
+    flush();
+
+    const first = f.value.split("\n")[0].trim();
+    const m = first.match(MT940_61);
+    if (!m) { c.skip(f.line, "bad_amount", "Línea :61: no reconocida", first); continue; }
+
+    const date = `20${m[1].slice(0, 2)}-${m[1].slice(2, 4)}-${m[1].slice(4, 6)}`;
+    if (isNaN(Date.parse(date))) { c.skip(f.line, "bad_date", "Fecha no reconocida", first); continue; }
+
+    const value = parseFloat(m[5].replace(",", "."));
+    // RC = reversal of a credit (money out), RD = reversal of a debit (money in)
+    const negative = m[3] === "D" || m[3] === "RC";
+    // Reference after "//" is the bank's; what precedes it is the customer's
+    const reference = (m[7] ?? "").split("//")[0].trim();
+    pending = { t: { date, amount: negative ? -value : value, description: reference }, line: f.line };
+  }
+  flush();
+
+  if (!c.result.transactions.length && !c.result.skipped.length) {
+    c.result.warnings.push("El archivo MT940 no contiene movimientos (:61:).");
+  }
+  return c.result;
+}
@@ -0,0 +1,66 @@
+// Merchant memory: categories the user picked by hand, keyed by a normalized
+// merchant string so next month's "OXXO SUC 4821 CDMX" finds what was learned
+// from "OXXO SUC 1190 CDMX".
+
+import type { Category } from "./categorizer";
+
+/** normalized merchant → category */
+export type MerchantMemory = Record<string, Category>;
+
+// Words that say how you paid, not whom
+const NOISE = new Set([
+  "compra", "pago", "cargo", "abono", "pos", "tpv", "tdc", "tdd", "debito", "credito",
+  "mx", "mex", "mexico", "cdmx", "df", "sa", "de", "cv", "s", "a", "c", "v", "suc", "www", "com",
+]);
+
+/**
+ * "PAYPAL *SPOTIFY 12AB34 MX" → "paypal spotify". Lowercases, strips accents,
+ * drops tokens with digits (references, branch numbers, dates) and noise words.
+ */
+export function merchantKey(description: string): string {
+  return description
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(w => w && !/\d/.test(w) && !NOISE.has(w))
+    .join(" ");
+}
+
+/**
+ * How alike two keys are, 0–1: shared words over total (Dice). A key of two or
+ * more words fully contained in the other counts as a match, since banks
+ * append city and terminal names at will. Single-word containment doesn't,
+ * or "uber" would swallow "uber eats".
+ */
+function similarity(a: string, b: string): number {
+  const ta = a.split(" "), tb = b.split(" ");
+  const sb = new Set(tb);
+  const shared = ta.filter(w => sb.has(w)).length;
+  if (shared === Math.min(ta.length, tb.length) && shared >= 2) return 1;
+  return (2 * shared) / (ta.length + tb.length);
+}
+
+const MIN_SIMILARITY = 0.75;
+
+/** Best remembered entry for a description: the stored key and its category */
+export function lookupMerchant(
+  memory: MerchantMemory,
+  description: string
+): { merchant: string; category: Category } | null {
+  const key = merchantKey(description);
+  if (!key) return null;
+  if (memory[key]) return { merchant: key, category: memory[key] };
+
+  let best: { merchant: string; category: Category } | null = null;
+  let bestScore = MIN_SIMILARITY;
+  for (const [merchant, category] of Object.entries(memory)) {
+    const score = similarity(key, merchant);
+    if (score >= bestScore) {
+      best = { merchant, category };
+      bestScore = score;
+    }
+  }
+  return best;
+}
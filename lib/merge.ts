@@ -0,0 +1,94 @@
+// Combining several uploaded statements into one transaction list. Each
+// transaction is tagged with the account (file) it came from, by position in
+// the upload so two files with the same name stay two accounts, and a charge
+// that shows up in two files (overlapping quincena statements, or the same
+// account exported twice) is kept once.
+
+import type { ParseResult, Transaction, TransactionDiagnostic } from "./parser";
+
+export interface SourceFile {
+  name: string;          // file name as uploaded
+  result: ParseResult;
+}
+
+export interface DuplicatePair {
+  kept: Transaction;
+  dropped: Transaction;
+}
+
+export interface MergedStatements {
+  transactions: Transaction[];          // sorted by date, each with `account` and `accountLabel`
+  diagnostics: TransactionDiagnostic[]; // same order and length as transactions
+  duplicates: DuplicatePair[];
+}
+
+/** "estado_cuenta_bbva_enero.csv" → "estado_cuenta_bbva_enero" */
+export function accountLabel(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "");
+}
+
+function tokens(desc: string): string[] {
+  return desc
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(w => w.length > 1);
+}
+
+/**
+ * Banks truncate and decorate merchant names differently ("UBER *TRIP" vs
+ * "UBER TRIP HELP.UBER.COM"), so compare word sets: one containing the other,
+ * or at least half the words shared. An empty description matches anything.
+ */
+export function similarDescriptions(a: string, b: string): boolean {
+  const ta = tokens(a), tb = tokens(b);
+  if (!ta.length || !tb.length) return true;
+  const sb = new Set(tb);
+  const shared = ta.filter(w => sb.has(w)).length;
+  return shared === Math.min(ta.length, tb.length) || shared / new Set([...ta, ...tb]).size >= 0.5;
+}
+
+const key = (t: Transaction) => `${t.date}|${t.amount.toFixed(2)}`;
+
+/**
+ * Merge in upload order. A transaction is a duplicate when an earlier file
+ * already has one with the same date, amount and a similar description.
+ * Matches within a single file never count: two $50 Oxxo charges on the
+ * same card on the same day are two charges.
+ */
+export function mergeStatements(files: SourceFile[]): MergedStatements {
+  type Kept = { t: Transaction; d: TransactionDiagnostic; matched: boolean };
+  const kept: Kept[] = [];
+  const byKey = new Map<string, Kept[]>();
+  const duplicates: DuplicatePair[] = [];
+
+  files.forEach((file, index) => {
+    const account = `f${index + 1}`;
+    const label = accountLabel(file.name);
+    file.result.transactions.forEach((raw, i) => {
+      const t = { ...raw, account, accountLabel: label };
+      const candidates = byKey.get(key(t)) ?? [];
+      const dup = candidates.find(
+        k => !k.matched && k.t.account !== account && similarDescriptions(k.t.description, t.description)
+      );
+      if (dup) {
+        dup.matched = true;
+        duplicates.push({ kept: dup.t, dropped: t });
+        return;
+      }
+      const entry = { t, d: file.result.diagnostics[i], matched: false };
+      kept.push(entry);
+      byKey.set(key(t), [...candidates, entry]);
+    });
+  });
+
+  // Stable sort keeps each file's own order within a day
+  kept.sort((a, b) => a.t.date.localeCompare(b.t.date));
+  return {
+    transactions: kept.map(k => k.t),
+    diagnostics: kept.map(k => k.d),
+    duplicates,
+  };
+}
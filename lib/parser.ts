@@ -1,29 +1,97 @@
 // CSV parsing is fully client-side.
-// PDF parsing extracts text client-side via pdf.js, then sends the raw text
-// to /api/parse-pdf (server-side) where Claude extracts the transactions.
+// PDF parsing extracts positioned text client-side via pdf.js and runs the
+// rule-based extractor in pdf-layout.ts. Only when that isn't confident does
+// the raw text go to /api/parse-pdf (server-side) for Claude to extract.
+
+import { detectProfile, getProfile, matchProfile } from "./banks";
+import type { ColumnMap, ProfileMatch } from "./banks";
+import { detectDateOrder, detectDecimalSeparator, parseAmount, parseDate, parseMonth } from "./formats";
+import type { DateOrder, DecimalSeparator } from "./formats";
+import { LOCAL_MIN_CONFIDENCE, extractPdfTransactions, groupIntoLines, lineText } from "./pdf-layout";
+import type { PdfLine, PdfTextItem } from "./pdf-layout";
+import { isCamt053, parseCAMT053, parseMT940, parseOFX } from "./interchange";
+import { findStatementTotals, reconcile, resolveBalances } from "./validate";
+import type { RejectedItem, StatementBalances, StatementTotals } from "./validate";
 
 export interface Transaction {
   date: string;        // YYYY-MM-DD
   amount: number;      // negative = expense, positive = income
   description: string;
+  account?: string;    // per-upload id of the source file when several are combined
+  accountLabel?: string; // that file's name, for display; two banks can export the same one
+  balance?: number;    // "Saldo" printed on the row, after this transaction
 }
 
-// ─── Utilities ───────────────────────────────────────────────────────────────
+// ─── Parse report ────────────────────────────────────────────────────────────
+// Every parser returns a ParseResult so the UI can explain a short statement
+// instead of silently dropping rows.
+
+export type SkipReason =
+  | "no_date"          // empty date cell (footers, totals, blank separators)
+  | "bad_date"         // date cell present but unreadable
+  | "bad_amount"       // amount cell present but unreadable
+  | "no_amount"        // both cargo and abono empty
+  | "rejected";        // PDF model output that failed validation
+
+export interface SkippedRow {
+  line?: number;       // 1-based line in the source file (PDF: extracted text line); none for model output
+  reason: SkipReason;
+  detail: string;      // user-facing, Spanish
+  raw: string;
+}
 
-function normalizeDate(s: string): string | null {
-  // DD/MM/YYYY or D/M/YYYY
-  const dmy = s.match(/^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})$/);
-  if (dmy) return `${dmy[3]}-${dmy[2].padStart(2, "0")}-${dmy[1].padStart(2, "0")}`;
-  // YYYY-MM-DD
-  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
-  return null;
+export interface TransactionDiagnostic {
+  line?: number;
+  confidence: number;  // 0–1: how sure we are the row was read correctly
+  warnings: string[];
+}
+
+export interface ParseFormat {
+  source: "csv" | "xlsx" | "pdf" | "ofx" | "camt053" | "mt940";
+  sheet?: string;              // XLSX: sheet the transactions came from
+  extractor?: "local" | "llm"; // PDF: which extractor produced the rows
+  profile?: string;            // CSV bank profile id
+  decimal?: DecimalSeparator;
+  dateOrder?: DateOrder;
 }
 
-function parseAmount(s: string): number {
-  // Remove currency symbol, spaces, commas-as-thousands-separator
-  return parseFloat(s.replace(/[$\s]/g, "").replace(/,/g, ""));
+export interface ParseResult {
+  transactions: Transaction[];
+  diagnostics: TransactionDiagnostic[]; // same order and length as transactions
+  skipped: SkippedRow[];
+  format: ParseFormat;
+  balances: StatementBalances; // empty when the statement shows neither
+  warnings: string[];          // file-level problems
 }
 
+function emptyResult(format: ParseFormat, warning?: string): ParseResult {
+  return {
+    transactions: [], diagnostics: [], skipped: [], format, balances: {}, warnings: warning ? [warning] : [],
+  };
+}
+
+/**
+ * Fill in balances from the printed totals and Saldo column, and warn when
+ * the transactions don't add up to them.
+ */
+function settleBalances(result: ParseResult, stated: StatementTotals): ParseResult {
+  // Newest-first statements: flip so the Saldo column runs forward in time
+  const txns = result.transactions;
+  if (txns.length > 1 && txns[0].date > txns[txns.length - 1].date) {
+    txns.reverse();
+    result.diagnostics.reverse();
+  }
+  const balances = resolveBalances(result.transactions, stated);
+  const warnings = reconcile(result.transactions, {
+    ...stated,
+    openingBalance: balances.opening,
+    closingBalance: balances.closing,
+  });
+  return { ...result, balances, warnings: [...warnings, ...result.warnings] };
+}
+
+// ─── Utilities ───────────────────────────────────────────────────────────────
+
 function cleanDesc(s: string): string {
   return s
     .replace(/\bREF\.?\s*:?\s*\S+/gi, "")  // REF:... or REF ...
@@ -35,9 +103,25 @@ function cleanDesc(s: string): string {
 
 // ─── CSV ─────────────────────────────────────────────────────────────────────
 
-function tokenizeCSV(text: string): string[][] {
+/**
+ * Semicolon-delimited files are the norm wherever the decimal separator is a
+ * comma, so only split on ";" when it outnumbers "," in the first lines.
+ */
+function detectDelimiter(lines: string[]): "," | ";" {
+  const sample = lines.slice(0, 20).join("\n");
+  const semis = (sample.match(/;/g) ?? []).length;
+  const commas = (sample.match(/,/g) ?? []).length;
+  return semis > commas ? ";" : ",";
+}
+
+/** Rows plus the 1-based source line of each, since blank lines are dropped */
+function tokenizeCSV(text: string): { rows: string[][]; lineNos: number[] } {
   const rows: string[][] = [];
-  for (const line of text.split(/\r?\n/)) {
+  const lineNos: number[] = [];
+  const all = text.split(/\r?\n/);
+  const delim = detectDelimiter(all.filter(l => l.trim()));
+  for (let n = 0; n < all.length; n++) {
+    const line = all[n];
     if (!line.trim()) continue;
     const fields: string[] = [];
     let inQ = false, cur = "";
@@ -46,60 +130,212 @@ function tokenizeCSV(text: string): string[][] {
       if (c === '"') {
         if (inQ && line[i + 1] === '"') { cur += '"'; i++; }
         else inQ = !inQ;
-      } else if ((c === "," || c === ";") && !inQ) {
+      } else if (c === delim && !inQ) {
         fields.push(cur.trim()); cur = "";
       } else cur += c;
     }
     fields.push(cur.trim());
     rows.push(fields);
+    lineNos.push(n + 1);
   }
-  return rows;
+  return { rows, lineNos };
 }
 
-export function parseCSV(text: string): Transaction[] {
-  const rows = tokenizeCSV(text);
-  if (rows.length < 2) return [];
+/** First plausible statement year in the metadata rows above the header */
+function preambleYear(preamble: string[][]): number | null {
+  for (const cell of preamble.flat()) {
+    const m = cell.match(/\b(20\d{2})\b/);
+    if (m) return parseInt(m[1], 10);
+  }
+  return null;
+}
 
-  // Normalize header: lowercase, strip BOM
-  const header = rows[0].map(h =>
-    h.toLowerCase().replace(/^\uFEFF/, "").replace(/[^a-záéíóúüñ\s]/g, "")
-  );
+function rowDate(r: string[], cols: ColumnMap, fmt: ParseFormat, fallbackYear: number): string | null {
+  if (cols.date >= 0) return r[cols.date] ? parseDate(r[cols.date], fmt.dateOrder) : null;
 
-  const fi = (pats: string[]) =>
-    header.findIndex(h => pats.some(p => h.includes(p)));
-
-  const dateCol  = fi(["fecha", "date"]);
-  const descCol  = fi(["concepto", "descripci", "description"]);
-  const amtCol   = fi(["monto", "importe", "amount"]);
-  const cargoCol = fi(["cargo"]);
-  const abonoCol = fi(["abono"]);
-
-  const isBBVA = cargoCol >= 0 && abonoCol >= 0;
-
-  const txns: Transaction[] = [];
-  for (let i = 1; i < rows.length; i++) {
-    const r = rows[i];
-    if (!r[dateCol]) continue;
-
-    const date = normalizeDate(r[dateCol]);
-    if (!date) continue;
-
-    let amount: number;
-    if (isBBVA) {
-      const cargo = parseAmount(r[cargoCol] || "0") || 0;
-      const abono = parseAmount(r[abonoCol] || "0") || 0;
-      if (!cargo && !abono) continue;
-      amount = abono > 0 ? abono : -cargo;
-    } else {
-      if (amtCol < 0) continue;
-      amount = parseAmount(r[amtCol] || "");
-      if (isNaN(amount)) continue;
+  const day = parseInt(r[cols.day] ?? "", 10);
+  const month = parseMonth(r[cols.month] ?? "");
+  const year = cols.year >= 0 ? parseInt(r[cols.year] ?? "", 10) : fallbackYear;
+  if (!day || !month || !year || day > 31) return null;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function rowBalance(r: string[], cols: ColumnMap, decimal: DecimalSeparator): number | undefined {
+  const cell = cols.balance >= 0 ? r[cols.balance] : "";
+  if (!cell) return undefined;
+  const n = parseAmount(cell, decimal);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** Signed amount for a row, or the reason it has none */
+function rowAmount(r: string[], cols: ColumnMap, decimal: DecimalSeparator): number | SkipReason {
+  if (cols.debit >= 0 && cols.credit >= 0) {
+    const cargoRaw = r[cols.debit] ?? "";
+    const abonoRaw = r[cols.credit] ?? "";
+    if (!cargoRaw && !abonoRaw) return "no_amount";
+    const cargo = Math.abs(parseAmount(cargoRaw || "0", decimal));
+    const abono = Math.abs(parseAmount(abonoRaw || "0", decimal));
+    if (isNaN(cargo) || isNaN(abono)) return "bad_amount";
+    if (!cargo && !abono) return "no_amount";
+    return abono > 0 ? abono : -cargo;
+  }
+
+  if (cols.amount < 0 || !r[cols.amount]) return "no_amount";
+  const amount = parseAmount(r[cols.amount], decimal);
+  if (isNaN(amount)) return "bad_amount";
+
+  if (cols.sign >= 0) {
+    const s = (r[cols.sign] ?? "").trim().toLowerCase();
+    if (s === "-" || s.startsWith("cargo") || s.startsWith("retiro")) return -Math.abs(amount);
+    if (s === "+" || s.startsWith("abono") || s.startsWith("deposito") || s.startsWith("depósito")) {
+      return Math.abs(amount);
     }
+  }
+  return amount;
+}
+
+/** Decide decimal separator and date order from every data row at once */
+function detectFormat(match: ProfileMatch, body: string[][], source: "csv" | "xlsx"): ParseFormat {
+  const { cols } = match;
+  const amountCols = [cols.amount, cols.debit, cols.credit].filter(i => i >= 0);
+  const amounts = body.flatMap(r => amountCols.map(i => r[i] ?? "")).filter(Boolean);
+  const dates = cols.date >= 0 ? body.map(r => r[cols.date] ?? "") : [];
+  return {
+    source,
+    profile: match.profile.id,
+    decimal: detectDecimalSeparator(amounts),
+    dateOrder: detectDateOrder(dates),
+  };
+}
+
+const SKIP_DETAIL: Record<SkipReason, string> = {
+  no_date: "Sin fecha",
+  bad_date: "Fecha no reconocida",
+  bad_amount: "Monto no reconocido",
+  no_amount: "Sin cargo ni abono",
+  rejected: "Descartado al validar",
+};
+
+/** Confidence and warnings for a row that did make it into the result */
+function diagnose(t: Transaction, line: number | undefined, extra: string[] = []): TransactionDiagnostic {
+  const warnings = [...extra];
+  if (!t.description) warnings.push("Sin descripción");
+  if (t.amount === 0) warnings.push("Monto en cero");
+  return { line, confidence: Math.max(0, 1 - 0.25 * warnings.length), warnings };
+}
+
+/**
+ * Column detection and row parsing shared by CSV and spreadsheet uploads, so
+ * bank profiles live in one place. `lineNos[i]` is the source line (or sheet
+ * row) of `rows[i]`.
+ */
+function parseRows(
+  rows: string[][],
+  lineNos: number[],
+  source: "csv" | "xlsx",
+  profileId?: string
+): ParseResult {
+  if (rows.length < 2) return emptyResult({ source }, "El archivo está vacío.");
+
+  const forced = profileId ? getProfile(profileId) : undefined;
+  const match = forced ? matchProfile(rows, forced) : detectProfile(rows);
+  if (!match) {
+    return emptyResult({ source }, "No se encontró una fila de encabezados con fecha y monto.");
+  }
+
+  const { cols } = match;
+  const start = match.headerRow + 1;
+  const body = rows.slice(start);
+  const format = detectFormat(match, body, source);
+  const statedYear = preambleYear(match.preamble);
+  const year = statedYear ?? new Date().getFullYear();
+  const yearWarning = cols.date < 0 && cols.year < 0 && statedYear === null
+    ? ["Año inferido (el archivo no lo indica)"]
+    : [];
+
+  const result = emptyResult(format);
+  body.forEach((r, i) => {
+    const line = lineNos[start + i];
+    const skip = (reason: SkipReason) =>
+      result.skipped.push({ line, reason, detail: SKIP_DETAIL[reason], raw: r.join(" | ") });
+
+    const dateCell = cols.date >= 0 ? r[cols.date] : r[cols.day];
+    if (!dateCell) return skip("no_date");
+    const date = rowDate(r, cols, format, year);
+    if (!date) return skip("bad_date");
+
+    const amount = rowAmount(r, cols, format.decimal!);
+    if (typeof amount !== "number") return skip(amount);
+
+    const hasDescCol = cols.description >= 0;
+    const desc = hasDescCol ? r[cols.description] : r[1] || "";
+    const t: Transaction = { date, amount, description: cleanDesc(desc ?? "") };
+    const balance = rowBalance(r, cols, format.decimal!);
+    if (balance !== undefined) t.balance = balance;
+    result.transactions.push(t);
+    result.diagnostics.push(
+      diagnose(t, line, hasDescCol ? yearWarning : [...yearWarning, "Columna de descripción no encontrada"])
+    );
+  });
+
+  console.log(
+    `${source.toUpperCase()}: perfil ${format.profile}, decimales "${format.decimal}", ` +
+    `fechas ${format.dateOrder} — ${result.transactions.length} transacciones, ` +
+    `${result.skipped.length} filas ignoradas`
+  );
+  // Summary lines ("Saldo anterior", "Saldo final") sit above or below the table
+  return settleBalances(result, findStatementTotals(rows.map(r => r.join(" ")).join("\n")));
+}
+
+/**
+ * Parse a CSV statement. The bank profile is auto-detected unless `profileId`
+ * names one explicitly (the user override in the upload screen).
+ */
+export function parseCSV(text: string, profileId?: string): ParseResult {
+  const { rows, lineNos } = tokenizeCSV(text);
+  return parseRows(rows, lineNos, "csv", profileId);
+}
+
+// ─── XLSX / XLS ──────────────────────────────────────────────────────────────
+
+/** Cell → string the way a CSV export would have written it */
+function cellText(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  if (typeof v === "number") return String(v); // dates stay serial numbers; parseDate handles them
+  return String(v).trim();
+}
+
+/**
+ * Parse the first sheet that looks like a transaction table. Cells are read
+ * raw (numbers, not Excel's locale formatting) and run through parseRows.
+ */
+export async function parseSpreadsheet(data: ArrayBuffer, profileId?: string): Promise<ParseResult> {
+  const XLSX = await import("xlsx");
+  const wb = XLSX.read(data, { type: "array" });
+
+  let first: ParseResult | null = null;
+  for (const sheetName of wb.SheetNames) {
+    const ws = wb.Sheets[sheetName];
+    if (!ws["!ref"]) continue;
+    const top = XLSX.utils.decode_range(ws["!ref"]).s.r;
+    const grid = XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1, raw: true, defval: "", blankrows: true });
+
+    const rows: string[][] = [];
+    const lineNos: number[] = [];
+    grid.forEach((r, i) => {
+      const cells = r.map(cellText);
+      if (!cells.some(Boolean)) return;
+      rows.push(cells);
+      lineNos.push(top + i + 1);
+    });
 
-    const desc = descCol >= 0 ? r[descCol] : r[1] || "";
-    txns.push({ date, amount, description: cleanDesc(desc) });
+    const result = parseRows(rows, lineNos, "xlsx", profileId);
+    result.format.sheet = sheetName;
+    if (result.transactions.length) return result;
+    first ??= result;
   }
-  return txns;
+
+  return first ?? emptyResult({ source: "xlsx" }, "El libro no tiene hojas con datos.");
 }
 
 // ─── PDF ─────────────────────────────────────────────────────────────────────
@@ -122,58 +358,102 @@ async function loadPdfJs(): Promise<any> {
   });
 }
 
-async function pdfToLines(file: File): Promise<string[]> {
+async function pdfToLines(file: File): Promise<PdfLine[]> {
   const lib = await loadPdfJs();
   const buf = await file.arrayBuffer();
   const pdf = await lib.getDocument({ data: buf }).promise;
-  const allLines: string[] = [];
+  const allLines: PdfLine[] = [];
 
   for (let p = 1; p <= pdf.numPages; p++) {
     const page = await pdf.getPage(p);
     const content = await page.getTextContent();
+    allLines.push(...groupIntoLines(content.items as PdfTextItem[], p));
+  }
 
-    type Chunk = { text: string; x: number; y: number };
-    const chunks: Chunk[] = (content.items as any[])
-      .filter(it => it.str?.trim())
-      .map(it => ({ text: it.str.trim(), x: it.transform[4], y: it.transform[5] }));
-
-    if (!chunks.length) continue;
+  return allLines.filter(l => lineText(l));
+}
 
-    // Sort top→bottom (PDF y-axis is inverted), then left→right within a line
-    chunks.sort((a, b) => b.y - a.y || a.x - b.x);
+export interface ParseProgress {
+  page: number;        // last page of the chunk being extracted
+  pages: number;
+}
 
-    let lineY = chunks[0].y;
-    let tokens = [chunks[0].text];
+interface LlmResult {
+  transactions: Transaction[];
+  rejected: RejectedItem[];
+  warnings: string[];
+}
 
-    for (let i = 1; i < chunks.length; i++) {
-      if (Math.abs(chunks[i].y - lineY) <= 3) {
-        tokens.push(chunks[i].text);
-      } else {
-        allLines.push(tokens.join(" ").trim());
-        lineY = chunks[i].y;
-        tokens = [chunks[i].text];
-      }
+/** Read the /api/parse-pdf event stream until its result (or error) event */
+async function readExtractionStream(
+  res: Response,
+  onProgress?: (p: ParseProgress) => void
+): Promise<LlmResult> {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buf += decoder.decode(value, { stream: true });
+
+    let sep: number;
+    while ((sep = buf.indexOf("\n\n")) >= 0) {
+      const raw = buf.slice(0, sep);
+      buf = buf.slice(sep + 2);
+      const event = raw.match(/^event: (.*)$/m)?.[1];
+      const data = JSON.parse(raw.match(/^data: (.*)$/m)?.[1] ?? "null");
+
+      if (event === "progress") onProgress?.({ page: data.lastPage, pages: data.pages });
+      else if (event === "result") return data as LlmResult;
+      else if (event === "error") throw new Error(`API error: ${data.error}`);
     }
-    allLines.push(tokens.join(" ").trim());
   }
-
-  return allLines.filter(l => l.trim());
+  throw new Error("API error: stream ended without a result");
 }
 
-async function parsePDF(file: File): Promise<Transaction[]> {
+async function parsePDF(file: File, onProgress?: (p: ParseProgress) => void): Promise<ParseResult> {
   const lines = await pdfToLines(file);
   if (!lines.length) {
-    console.warn("No text found in PDF — it may be a scanned image.");
-    return [];
+    return emptyResult({ source: "pdf" }, "El PDF no tiene texto — puede ser una imagen escaneada.");
   }
 
-  const rawText = lines.join("\n");
-  console.log(`Extracted ${lines.length} lines from PDF, sending to Claude...`);
+  const rawText = lines.map(lineText).join("\n");
+  const local = extractPdfTransactions(lines);
+  if (local.confidence >= LOCAL_MIN_CONFIDENCE) {
+    console.log(
+      `PDF: ${local.transactions.length} transacciones leídas localmente ` +
+      `(confianza ${local.confidence.toFixed(2)})`
+    );
+    return settleBalances(
+      {
+        transactions: local.transactions.map(t => ({ ...t, description: cleanDesc(t.description) })),
+        diagnostics: local.diagnostics,
+        skipped: local.skipped,
+        format: { source: "pdf", extractor: "local", decimal: local.decimal },
+        balances: {},
+        warnings: [],
+      },
+      findStatementTotals(rawText)
+    );
+  }
+
+  const format: ParseFormat = { source: "pdf", extractor: "llm" };
+  console.log(
+    `Extracted ${lines.length} lines from PDF (local confidence ${local.confidence.toFixed(2)}), ` +
+    `sending to Claude...`
+  );
+
+  const pageCount = lines[lines.length - 1].page;
+  const pages = Array.from({ length: pageCount }, (_, i) =>
+    lines.filter(l => l.page === i + 1).map(lineText).join("\n")
+  );
 
   const res = await fetch("/api/parse-pdf", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ text: rawText }),
+    body: JSON.stringify({ pages }),
   });
 
   if (!res.ok) {
@@ -181,27 +461,80 @@ async function parsePDF(file: File): Promise<Transaction[]> {
     throw new Error(`API error: ${err.error ?? res.statusText}`);
   }
 
-  const { transactions } = await res.json();
-  return transactions as Transaction[];
+  const { transactions, rejected, warnings } = await readExtractionStream(res, onProgress);
+  for (const r of rejected) console.warn(`Claude item ${r.index} rejected: ${r.reason}`, r.item);
+
+  return {
+    ...emptyResult(format),
+    transactions,
+    skipped: rejected.map(r => ({
+      reason: "rejected" as const,
+      detail: `${SKIP_DETAIL.rejected}: ${r.reason}`,
+      raw: JSON.stringify(r.item).slice(0, 200),
+    })),
+    // The server already reconciled against these; don't warn twice
+    balances: resolveBalances(transactions, findStatementTotals(pages.join("\n"))),
+    warnings,
+    // Model output has no line numbers; cap confidence since nothing checked it
+    diagnostics: transactions.map(t => {
+      const d = diagnose(t, undefined);
+      return { ...d, confidence: Math.min(d.confidence, 0.8) };
+    }),
+  };
 }
 
 // ─── Entry point ─────────────────────────────────────────────────────────────
 
-export async function parseFile(file: File): Promise<Transaction[]> {
+export interface ParseOptions {
+  bankProfile?: string; // CSV/XLSX only: skip detection and use this profile id
+  onProgress?: (p: ParseProgress) => void; // PDF only: LLM extraction progress
+}
+
+function readText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = e => resolve(e.target?.result as string ?? "");
+    reader.onerror = reject;
+    reader.readAsText(file, "utf-8");
+  });
+}
+
+/** Structured formats state their balances outright; check the movements against them */
+function cleaned(result: ParseResult): ParseResult {
+  return settleBalances(
+    { ...result, transactions: result.transactions.map(t => ({ ...t, description: cleanDesc(t.description) })) },
+    { openingBalance: result.balances.opening, closingBalance: result.balances.closing }
+  );
+}
+
+export async function parseFile(file: File, opts: ParseOptions = {}): Promise<ParseResult> {
   const name = file.name.toLowerCase();
 
   if (name.endsWith(".csv")) {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = e => resolve(parseCSV(e.target?.result as string ?? ""));
-      reader.onerror = reject;
-      reader.readAsText(file, "utf-8");
-    });
+    return parseCSV(await readText(file), opts.bankProfile);
+  }
+
+  if (name.endsWith(".xlsx") || name.endsWith(".xls")) {
+    return parseSpreadsheet(await file.arrayBuffer(), opts.bankProfile);
   }
 
   if (name.endsWith(".pdf")) {
-    return parsePDF(file);
+    return parsePDF(file, opts.onProgress);
+  }
+
+  if (name.endsWith(".ofx") || name.endsWith(".qfx")) {
+    return cleaned(parseOFX(await readText(file)));
+  }
+
+  if (name.endsWith(".xml")) {
+    const xml = await readText(file);
+    if (!isCamt053(xml)) throw new Error("El XML no parece un estado de cuenta CAMT.053.");
+    return cleaned(parseCAMT053(xml));
+  }
+
+  if (/\.(sta|mt940|940)$/.test(name)) {
+    return cleaned(parseMT940(await readText(file)));
   }
 
-  throw new Error("Tipo de archivo no soportado. Sube un .csv o .pdf.");
+  throw new Error("Tipo de archivo no soportado. Sube un .csv, .xlsx, .pdf, .ofx, .qfx, .xml (CAMT.053) o .sta (MT940).");
 }
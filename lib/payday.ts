@@ -0,0 +1,196 @@
+// Pay schedule read from the deposits themselves. The 15th and the last day
+// of the month are only the fallback: plenty of people are paid weekly, every
+// other Friday, or on the last business day, which moves when it falls on a
+// weekend. Paydays feed the awards that care about "right after" or "right
+// before" getting paid, the period split, and the runway summary.
+
+import type { CategorizedTransaction } from "./categorizer";
+import { isSalaryDeposit } from "./income";
+import { merchantKey } from "./merchants";
+import { addDays, daysBetween, lastDay } from "./periods";
+
+export type PayCadence = "weekly" | "biweekly" | "semimonthly" | "monthly";
+
+export interface PayDeposit {
+  date: string;
+  amount: number;
+}
+
+export interface PaySchedule {
+  cadence: PayCadence;
+  payer: string;            // merchantKey() of the deposits
+  description: string;      // as it reads on the latest deposit
+  deposits: PayDeposit[];   // oldest first, one per day
+  dayOfMonth?: number;      // monthly: due day; 31 = last business day
+}
+
+export const PAY_CADENCE_LABELS: Record<PayCadence, string> = {
+  weekly: "cada semana",
+  biweekly: "cada dos semanas",
+  semimonthly: "cada quincena",
+  monthly: "cada mes",
+};
+
+// Deposits within this fraction of the typical one are the same paycheck;
+// bonuses and overtime move it, a one-off transfer from a friend doesn't fit
+const SAME_PAY = 0.3;
+
+// An observed deposit this close to a due date is that payday, paid early or late
+const PAYDAY_SLACK = 3;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** Due date moved back to Friday when it lands on a weekend */
+function businessDay(date: string): string {
+  const dow = new Date(date + "T00:00:00Z").getUTCDay();
+  return dow === 6 ? addDays(date, -1) : dow === 0 ? addDays(date, -2) : date;
+}
+
+/** On or a few business days before the 15th or the end of the month */
+function nearQuincena(date: string): boolean {
+  const [y, m, d] = date.split("-").map(Number);
+  return (d >= 15 - PAYDAY_SLACK && d <= 15) || d >= lastDay(y, m) - PAYDAY_SLACK;
+}
+
+function cadenceOf(dates: string[]): PayCadence | null {
+  if (dates.length === 1) return nearQuincena(dates[0]) ? "semimonthly" : "monthly";
+  const gaps = dates.slice(1).map((d, i) => daysBetween(dates[i], d));
+  const gap = median(gaps);
+  if (gap >= 6 && gap <= 8) return "weekly";
+  if (gap >= 12 && gap <= 17) {
+    if (dates.every(nearQuincena)) return "semimonthly";
+    return gaps.every(g => Math.abs(g - 14) <= 1) ? "biweekly" : null;
+  }
+  if (gap >= 27 && gap <= 34) return "monthly";
+  return null;
+}
+
+/**
+ * The user's paycheck: credits from one payer, at a similar amount, on a
+ * regular cadence. Deposits that say nómina/sueldo win over other recurring
+ * credits and count even when there's only one of them; among equals the
+ * bigger total wins. Null when nothing looks like pay.
+ */
+export function detectPaySchedule(txns: CategorizedTransaction[]): PaySchedule | null {
+  const byPayer = new Map<string, CategorizedTransaction[]>();
+  for (const t of txns) {
+    if (t.amount <= 0) continue;
+    const payer = merchantKey(t.description);
+    byPayer.set(payer, [...(byPayer.get(payer) ?? []), t]);
+  }
+
+  let best: { schedule: PaySchedule; salary: boolean; total: number } | null = null;
+  for (const [payer, credits] of byPayer) {
+    const salary = credits.some(isSalaryDeposit);
+    const typical = median(credits.map(t => t.amount));
+    const sameDay = new Map<string, CategorizedTransaction>();
+    for (const t of credits) {
+      if (Math.abs(t.amount - typical) > typical * SAME_PAY) continue;
+      const prev = sameDay.get(t.date);
+      sameDay.set(t.date, prev ? { ...t, amount: prev.amount + t.amount } : t);
+    }
+    const found = [...sameDay.values()].sort((a, b) => a.date.localeCompare(b.date));
+    if (!found.length || (!salary && found.length < 2)) continue;
+
+    const cadence = cadenceOf(found.map(t => t.date));
+    if (!cadence) continue;
+
+    const total = found.reduce((s, t) => s + t.amount, 0);
+    if (best && (best.salary !== salary ? best.salary : best.total >= total)) continue;
+
+    const last = found[found.length - 1];
+    const schedule: PaySchedule = {
+      cadence,
+      payer,
+      description: last.description,
+      deposits: found.map(t => ({ date: t.date, amount: t.amount })),
+    };
+    if (cadence === "monthly") {
+      const [y, m, d] = last.date.split("-").map(Number);
+      schedule.dayOfMonth = d >= lastDay(y, m) - PAYDAY_SLACK ? 31 : d;
+    }
+    best = { schedule, salary, total };
+  }
+  return best?.schedule ?? null;
+}
+
+/**
+ * Paydays from `start` to `end` inclusive: observed deposits, plus due dates
+ * the schedule predicts where none was observed. Without a schedule, the
+ * 15th, the 30th and the last day of each month as printed on the calendar,
+ * since employers split between paying on the 30th and on the 31st.
+ */
+export function paydaysBetween(schedule: PaySchedule | null, start: string, end: string): string[] {
+  const due: string[] = [];
+  const cadence = schedule?.cadence ?? "semimonthly";
+
+  if (cadence === "weekly" || cadence === "biweekly") {
+    const step = cadence === "weekly" ? 7 : 14;
+    const anchor = schedule!.deposits[schedule!.deposits.length - 1].date;
+    const back = Math.ceil(daysBetween(start, anchor) / step);
+    for (let d = addDays(anchor, -back * step); d <= end; d = addDays(d, step)) due.push(d);
+  } else {
+    const days = cadence === "monthly" ? [schedule!.dayOfMonth ?? 31] : schedule ? [15, 31] : [15, 30, 31];
+    let [y, m] = start.split("-").map(Number);
+    while (`${y}-${String(m).padStart(2, "0")}` <= end.slice(0, 7)) {
+      for (const day of days) {
+        const date = `${y}-${String(m).padStart(2, "0")}-${String(Math.min(day, lastDay(y, m))).padStart(2, "0")}`;
+        due.push(schedule ? businessDay(date) : date);
+      }
+      [y, m] = m === 12 ? [y + 1, 1] : [y, m + 1];
+    }
+  }
+
+  const observed = schedule?.deposits.map(d => d.date) ?? [];
+  const predicted = due.filter(d => !observed.some(o => Math.abs(daysBetween(o, d)) <= PAYDAY_SLACK));
+  return [...new Set([...observed, ...predicted])]
+    .filter(d => d >= start && d <= end)
+    .sort();
+}
+
+export interface PayCycle {
+  payday: string;
+  amount: number;      // what came in on payday
+  days: number;        // until the next payday
+  lasted: number;      // days until spending since payday caught up with the pay
+  ranOut: boolean;     // spending caught up before the next payday
+  complete: boolean;   // the statement reaches the next payday
+}
+
+/**
+ * How long each paycheck lasted: days from payday until the charges since
+ * then add up to what came in. A cycle the statement cuts off early only
+ * counts the days it covers.
+ */
+export function payCycles(txns: CategorizedTransaction[], schedule: PaySchedule | null): PayCycle[] {
+  if (!schedule || !txns.length) return [];
+  const lastDate = txns.reduce((max, t) => (t.date > max ? t.date : max), txns[0].date);
+
+  return schedule.deposits.map(({ date, amount }) => {
+    const next = paydaysBetween(schedule, addDays(date, 1), addDays(date, 40))[0] ?? addDays(date, 31);
+    const complete = lastDate >= addDays(next, -1);
+    const until = complete ? addDays(next, -1) : lastDate;
+
+    let spent = 0;
+    let ranOutOn: string | null = null;
+    const charges = txns
+      .filter(t => t.amount < 0 && t.date >= date && t.date <= until)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    for (const t of charges) {
+      spent += -t.amount;
+      if (spent >= amount) { ranOutOn = t.date; break; }
+    }
+
+    return {
+      payday: date,
+      amount,
+      days: daysBetween(date, next),
+      lasted: ranOutOn ? daysBetween(date, ranOutOn) : daysBetween(date, until) + 1,
+      ranOut: ranOutOn !== null,
+      complete,
+    };
+  });
+}
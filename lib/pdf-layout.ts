@@ -0,0 +1,255 @@
+// Rule-based transaction extraction from PDF text positions. pdf.js gives us
+// every text run with its x/y; statements lay transactions out in a table whose
+// header ("Fecha · Descripción · Cargos · Abonos · Saldo") tells us which x
+// belongs to which column. No DOM and no network here, so it runs anywhere.
+
+import { normalizeHeader } from "./banks";
+import { detectDecimalSeparator, parseAmount, parseDate } from "./formats";
+import type { DecimalSeparator } from "./formats";
+import type { SkippedRow, Transaction, TransactionDiagnostic } from "./parser";
+
+export interface PdfCell {
+  text: string;
+  x: number;        // left edge
+  width: number;
+}
+
+export interface PdfLine {
+  page: number;     // 1-based
+  cells: PdfCell[]; // left → right
+}
+
+/** Raw text run as pdf.js returns it (only the fields we use) */
+export interface PdfTextItem {
+  str?: string;
+  width?: number;
+  transform: number[]; // [a, b, c, d, x, y]
+}
+
+export function lineText(l: PdfLine): string {
+  return l.cells.map(c => c.text).join(" ").trim();
+}
+
+/** Group one page's text runs into lines by y (within 3pt), left → right */
+export function groupIntoLines(items: PdfTextItem[], page: number): PdfLine[] {
+  type Chunk = PdfCell & { y: number };
+  const chunks: Chunk[] = items
+    .filter(it => it.str?.trim())
+    .map(it => ({ text: it.str!.trim(), x: it.transform[4], y: it.transform[5], width: it.width ?? 0 }));
+
+  if (!chunks.length) return [];
+
+  // Sort top→bottom (PDF y-axis is inverted), then left→right within a line
+  chunks.sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lines: PdfLine[] = [];
+  let lineY = chunks[0].y;
+  let cells: PdfCell[] = [];
+
+  for (const c of chunks) {
+    if (Math.abs(c.y - lineY) > 3) {
+      lines.push({ page, cells });
+      lineY = c.y;
+      cells = [];
+    }
+    cells.push({ text: c.text, x: c.x, width: c.width });
+  }
+  lines.push({ page, cells });
+
+  for (const l of lines) l.cells.sort((a, b) => a.x - b.x);
+  return lines;
+}
+
+// ─── Column layout ────────────────────────────────────────────────────────────
+
+type Column = "date" | "description" | "debit" | "credit" | "amount" | "balance";
+
+// Checked in this order per header cell; matched against normalizeHeader() output
+const HEADER_PATTERNS: [Column, string[]][] = [
+  ["date",        ["fecha", "dia"]],
+  ["description", ["descripci", "concepto", "detalle", "movimiento", "establecimiento"]],
+  ["debit",       ["cargo", "retiro", "debito"]],
+  ["credit",      ["abono", "deposito", "credito"]],
+  ["balance",     ["saldo"]],
+  ["amount",      ["importe", "monto"]],
+];
+
+type Layout = Partial<Record<Column, number>>; // column → x center of its header
+
+const center = (c: PdfCell) => c.x + c.width / 2;
+
+function headerLayout(line: PdfLine): Layout | null {
+  // Column titles never contain digits; summary lines ("Total de cargos 1,234.00") do
+  if (line.cells.some(c => /\d/.test(c.text))) return null;
+
+  const layout: Layout = {};
+  for (const cell of line.cells) {
+    const h = normalizeHeader(cell.text);
+    for (const [col, pats] of HEADER_PATTERNS) {
+      if (layout[col] === undefined && pats.some(p => h.includes(p))) {
+        layout[col] = center(cell);
+        break;
+      }
+    }
+  }
+  const hasAmount = layout.amount !== undefined ||
+    (layout.debit !== undefined && layout.credit !== undefined);
+  return layout.date !== undefined && hasAmount ? layout : null;
+}
+
+// ─── Cells ────────────────────────────────────────────────────────────────────
+
+const AMOUNT_RE = /^[-+(]?\$?\s?\d{1,3}([.,\s]?\d{3})*([.,]\d{2})\)?-?(\s?(CR|DR))?$/i;
+const YEAR_RE = /\b(20\d{2})\b/;
+
+function isAmount(s: string): boolean {
+  return AMOUNT_RE.test(s.trim());
+}
+
+/** Statement dates often omit the year ("05/ENE", "05-01"); borrow the statement's */
+function cellDate(s: string, year: number): string | null {
+  const full = parseDate(s);
+  if (full) return full;
+  const short = s.trim().match(/^(\d{1,2})[\/\-\s]([a-z]{3}|\d{1,2})\.?$/i);
+  return short ? parseDate(`${short[1]}/${short[2]}/${year}`) : null;
+}
+
+/**
+ * Date from the first cell, or the first two when the day and month are split.
+ * A second date right after it (operation vs. settlement date) is consumed too.
+ */
+function leadingDate(cells: PdfCell[], year: number): { date: string; used: number } | null {
+  if (!cells.length) return null;
+  let date = cellDate(cells[0].text, year);
+  let used = 1;
+  if (!date && cells.length > 1) {
+    date = cellDate(`${cells[0].text} ${cells[1].text}`, year);
+    used = 2;
+  }
+  if (!date) return null;
+  while (used < cells.length && cellDate(cells[used].text, year)) used++;
+  return { date, used };
+}
+
+function nearestAmountColumn(cell: PdfCell, layout: Layout): Column | null {
+  let best: Column | null = null;
+  let bestDist = Infinity;
+  for (const col of ["debit", "credit", "amount", "balance"] as Column[]) {
+    const x = layout[col];
+    if (x === undefined) continue;
+    const d = Math.abs(center(cell) - x);
+    if (d < bestDist) { best = col; bestDist = d; }
+  }
+  return best;
+}
+
+// ─── Extraction ───────────────────────────────────────────────────────────────
+
+export interface PdfExtraction {
+  transactions: Transaction[];
+  diagnostics: TransactionDiagnostic[];
+  skipped: SkippedRow[];
+  decimal: DecimalSeparator;
+  confidence: number;   // 0 when no table header was found
+}
+
+// Below this the extractor probably misread the layout; parsePDF asks the LLM
+export const LOCAL_MIN_CONFIDENCE = 0.9;
+
+// Lines that end the transaction table rather than continue a description
+const TABLE_END_RE = /^(total|saldo (final|anterior|inicial)|resumen)/i;
+
+/**
+ * Extract transactions from positioned lines. Line numbers in the report are
+ * 1-based indexes into `lines` (the same text the LLM fallback receives).
+ */
+export function extractPdfTransactions(lines: PdfLine[]): PdfExtraction {
+  const allText = lines.map(lineText);
+  const yearMatch = allText.join("\n").match(YEAR_RE);
+  const year = yearMatch ? parseInt(yearMatch[1], 10) : new Date().getFullYear();
+  const decimal = detectDecimalSeparator(
+    lines.flatMap(l => l.cells.map(c => c.text)).filter(isAmount)
+  );
+
+  const out: PdfExtraction = { transactions: [], diagnostics: [], skipped: [], decimal, confidence: 0 };
+  let layout: Layout | null = null;
+  let sawHeader = false;
+  let last: Transaction | null = null;
+  let dateLines = 0;
+
+  lines.forEach((line, i) => {
+    const lineNo = i + 1;
+    // Headers repeat on every page; re-anchor each time
+    const header = headerLayout(line);
+    if (header) {
+      layout = header;
+      sawHeader = true;
+      last = null;
+      return;
+    }
+    if (!layout) return;
+
+    const lead = leadingDate(line.cells, year);
+    if (!lead) {
+      // Wrapped description: text only, left of the money columns
+      const text = allText[i];
+      if (TABLE_END_RE.test(text)) { last = null; return; }
+      const firstMoney = Math.min(
+        ...(["debit", "credit", "amount"] as Column[]).map(c => layout![c] ?? Infinity)
+      );
+      if (last && !line.cells.some(c => isAmount(c.text)) && line.cells.every(c => center(c) < firstMoney)) {
+        last.description = `${last.description} ${text}`.trim();
+      }
+      return;
+    }
+
+    dateLines++;
+    last = null;
+    const descParts: string[] = [];
+    let debit: number | null = null;
+    let credit: number | null = null;
+    let signed: number | null = null;
+    let balance: number | null = null;
+
+    for (const cell of line.cells.slice(lead.used)) {
+      if (!isAmount(cell.text)) { descParts.push(cell.text); continue; }
+      const value = parseAmount(cell.text, decimal);
+      switch (nearestAmountColumn(cell, layout)) {
+        case "debit":  debit = Math.abs(value); break;
+        case "credit": credit = Math.abs(value); break;
+        case "amount": signed = value; break;
+        case "balance": balance = value; break;
+      }
+    }
+
+    const skip = (reason: SkippedRow["reason"], detail: string) =>
+      out.skipped.push({ line: lineNo, reason, detail, raw: allText[i] });
+
+    let amount: number;
+    if (signed !== null && debit === null && credit === null) amount = signed;
+    else if (debit !== null && credit === null) amount = -debit;
+    else if (credit !== null && debit === null) amount = credit;
+    else if (debit === null && credit === null) return skip("no_amount", "Sin cargo ni abono");
+    else return skip("bad_amount", "Cargo y abono en la misma línea");
+
+    if (isNaN(amount)) return skip("bad_amount", "Monto no reconocido");
+
+    const t: Transaction = { date: lead.date, amount, description: descParts.join(" ") };
+    if (balance !== null && !isNaN(balance)) t.balance = balance;
+    out.transactions.push(t);
+    out.diagnostics.push({ line: lineNo, confidence: 1, warnings: [] });
+    last = t;
+  });
+
+  out.diagnostics.forEach((d, i) => {
+    if (!out.transactions[i].description) {
+      d.warnings.push("Sin descripción");
+      d.confidence = 0.75;
+    }
+  });
+
+  if (sawHeader && out.transactions.length) {
+    out.confidence = out.transactions.length / dateLines;
+  }
+  return out;
+}
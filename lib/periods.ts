@@ -0,0 +1,181 @@
+// Reporting periods. Payroll in Mexico pays on the 15th and at month end, so
+// the default period is the quincena (1st–15th, 16th–end of month); a whole
+// month or a credit card's cut-off day are the alternatives. A statement that
+// spans several periods gets one award set, one quincena_results row and one
+// bar in the trends chart per period.
+//
+// quincena_results is keyed by (session_id, period); the columns below come
+// from supabase/migrations/20261019000000_quincena_periods.sql:
+//   period       text  Period.key: "2026-03-Q2", "2026-03" or "2026-03-C12"
+//   period_start date  first day, after moving it for an early payday
+//   period_end   date
+//   month        text  YYYY-MM of period_end; the old key, which the migration
+//                      copied into period for rows saved before periods existed
+
+export type PeriodMode = "quincena" | "month" | "cutoff";
+
+export interface PeriodSettings {
+  mode: PeriodMode;
+  cutoffDay?: number;  // 1–31 for "cutoff"; shorter months cut on their last day
+}
+
+export interface Period {
+  key: string;
+  start: string;  // YYYY-MM-DD, inclusive
+  end: string;    // YYYY-MM-DD, inclusive
+}
+
+export const PERIOD_MODE_LABELS: Record<PeriodMode, string> = {
+  quincena: "Por quincena",
+  month: "Mes completo",
+  cutoff: "Corte de tarjeta",
+};
+
+export const DEFAULT_PERIOD: PeriodSettings = { mode: "quincena" };
+
+const MES = [
+  "enero", "febrero", "marzo", "abril", "mayo", "junio",
+  "julio", "agosto", "septiembre", "octubre", "noviembre", "diciembre",
+];
+const MES_SHORT = ["ene", "feb", "mar", "abr", "may", "jun", "jul", "ago", "sep", "oct", "nov", "dic"];
+
+// A salary deposit up to this many days before a period starts opens it
+// early: payroll moves up when the 15th or the 30th falls on a weekend
+const EARLY_PAY_DAYS = 3;
+
+function iso(y: number, m: number, d: number): string {
+  return `${y}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+export function lastDay(y: number, m: number): number {
+  return new Date(Date.UTC(y, m, 0)).getUTCDate();
+}
+
+export function addDays(date: string, n: number): string {
+  const d = new Date(date + "T00:00:00Z");
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Days from a to b (positive = b is after a) */
+export function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(b) - Date.parse(a)) / 86400000);
+}
+
+function cutoffPeriod(y: number, m: number, day: number): Period {
+  const [py, pm] = m === 1 ? [y - 1, 12] : [y, m - 1];
+  return {
+    key: `${iso(y, m, 1).slice(0, 7)}-C${day}`,
+    start: addDays(iso(py, pm, Math.min(day, lastDay(py, pm))), 1),
+    end: iso(y, m, Math.min(day, lastDay(y, m))),
+  };
+}
+
+/** The period a date falls in, before any payday adjustment */
+export function periodOf(date: string, settings: PeriodSettings): Period {
+  const [y, m, d] = date.split("-").map(Number);
+  const ym = date.slice(0, 7);
+  switch (settings.mode) {
+    case "month":
+      return { key: ym, start: iso(y, m, 1), end: iso(y, m, lastDay(y, m)) };
+    case "cutoff": {
+      const day = Math.min(31, Math.max(1, settings.cutoffDay ?? 31));
+      const period = cutoffPeriod(y, m, day);
+      return date <= period.end ? period : cutoffPeriod(m === 12 ? y + 1 : y, m === 12 ? 1 : m + 1, day);
+    }
+    default:
+      return d <= 15
+        ? { key: `${ym}-Q1`, start: iso(y, m, 1), end: iso(y, m, 15) }
+        : { key: `${ym}-Q2`, start: iso(y, m, 16), end: iso(y, m, lastDay(y, m)) };
+  }
+}
+
+/** Period for a saved key, without payday adjustment; bare YYYY-MM is a month */
+export function periodFromKey(key: string): Period {
+  const m = key.match(/^(\d{4})-(\d{2})(?:-(Q[12]|C\d+))?$/);
+  if (!m) return { key, start: key, end: key };
+  const [y, mo] = [Number(m[1]), Number(m[2])];
+  if (!m[3]) return periodOf(iso(y, mo, 1), { mode: "month" });
+  if (m[3][0] === "Q") return periodOf(iso(y, mo, m[3] === "Q1" ? 1 : 16), { mode: "quincena" });
+  return cutoffPeriod(y, mo, Number(m[3].slice(1)));
+}
+
+/**
+ * Transactions grouped by period, oldest first. A salary deposit (from
+ * detectPaySchedule()) a few days before a quincena or month starts moves the
+ * start up to that day: the money is for the period it opens. Cut-off
+ * periods follow the card, not the payroll, so paydays don't move them.
+ */
+export function splitByPeriod<T extends { date: string }>(
+  txns: T[],
+  settings: PeriodSettings,
+  paydays: string[] = []
+): { period: Period; transactions: T[] }[] {
+  const earlyStarts = new Map<string, string>();
+  if (settings.mode !== "cutoff") {
+    for (const day of paydays) {
+      const opens = periodOf(addDays(day, EARLY_PAY_DAYS), settings);
+      if (day < opens.start && (earlyStarts.get(opens.key) ?? opens.start) > day) earlyStarts.set(opens.key, day);
+    }
+  }
+
+  const adjusted = (p: Period): Period => {
+    const next = earlyStarts.get(periodOf(addDays(p.end, 1), settings).key);
+    return {
+      key: p.key,
+      start: earlyStarts.get(p.key) ?? p.start,
+      end: next ? addDays(next, -1) : p.end,
+    };
+  };
+
+  const groups = new Map<string, { period: Period; transactions: T[] }>();
+  for (const t of txns) {
+    const ahead = periodOf(addDays(t.date, EARLY_PAY_DAYS), settings);
+    const early = earlyStarts.get(ahead.key);
+    const period = adjusted(early && t.date >= early ? ahead : periodOf(t.date, settings));
+    const group = groups.get(period.key) ?? { period, transactions: [] };
+    group.transactions.push(t);
+    groups.set(period.key, group);
+  }
+  return [...groups.values()].sort((a, b) => a.period.start.localeCompare(b.period.start));
+}
+
+/** True when `b` starts the day after `a` ends */
+export function isNextPeriod(a: Period, b: Period): boolean {
+  return addDays(a.end, 1) === b.start;
+}
+
+/** "2ª quincena de marzo 2026", "marzo 2026", "corte del 12 de marzo 2026" */
+export function formatPeriod(key: string): string {
+  const { end } = periodFromKey(key);
+  const [y, m] = key.split("-");
+  const month = `${MES[parseInt(m) - 1]} ${y}`;
+  const kind = key.split("-")[2] ?? "";
+  if (kind.startsWith("Q")) return `${kind === "Q1" ? "1ª" : "2ª"} quincena de ${month}`;
+  if (kind.startsWith("C")) return `corte del ${parseInt(end.slice(8))} de ${month}`;
+  return month;
+}
+
+/** For roasts: "esta quincena", "este mes", "este corte"; "este periodo" otherwise */
+export function thisPeriod(key?: string): string {
+  const kind = key?.match(/^\d{4}-\d{2}(?:-([QC]))?/);
+  if (!kind) return "este periodo";
+  return kind[1] === "Q" ? "esta quincena" : kind[1] === "C" ? "este corte" : "este mes";
+}
+
+/** Chart label: "Q2 mar 26", "mar 26", "12 mar 26" */
+export function shortPeriod(key: string): string {
+  const { end } = periodFromKey(key);
+  const [y, m] = key.split("-");
+  const month = `${MES_SHORT[parseInt(m) - 1]} ${y.slice(2)}`;
+  const kind = key.split("-")[2] ?? "";
+  if (kind.startsWith("Q")) return `${kind} ${month}`;
+  if (kind.startsWith("C")) return `${parseInt(end.slice(8))} ${month}`;
+  return month;
+}
+
+/** "15 mar" */
+export function shortDate(date: string): string {
+  const [, m, d] = date.split("-");
+  return `${parseInt(d)} ${MES_SHORT[parseInt(m) - 1]}`;
+}
@@ -0,0 +1,160 @@
+// Recurring-charge detection: the same merchant, at a similar amount, on a
+// regular cadence. It ignores categories on purpose, so a gym billed through
+// a payment processor or a SaaS nobody put in KEYWORDS still shows up.
+//
+// A monthly charge appears once per statement, so detection needs earlier
+// months too. Each period saves one summary per merchant that already looks
+// recurring to quincena_results.charges (jsonb, ChargeRecord[]) and later
+// uploads read them back as history. One-off purchases are never saved.
+
+import { merchantKey } from "./merchants";
+import type { CategorizedTransaction } from "./categorizer";
+import { daysBetween } from "./periods";
+
+export interface ChargeRecord {
+  merchant: string;  // merchantKey() of the description
+  amount: number;    // positive; the latest charge
+  date: string;      // YYYY-MM-DD of the latest charge
+  count: number;     // charges from this merchant in the period
+}
+
+type Charge = Omit<ChargeRecord, "count">;
+
+export type Cadence = "weekly" | "biweekly" | "monthly" | "yearly";
+
+export interface Subscription {
+  merchant: string;
+  description: string;      // as it reads on the latest charge
+  cadence: Cadence;
+  amount: number;           // latest charge
+  monthlyCost: number;
+  lastDate: string;
+  occurrences: number;
+  isNew: boolean;           // first time it shows up as recurring
+  previousAmount?: number;  // set when the price changed since the last charge
+}
+
+export const CADENCE_LABELS: Record<Cadence, string> = {
+  weekly: "semanal",
+  biweekly: "quincenal",
+  monthly: "mensual",
+  yearly: "anual",
+};
+
+// minCount: short cadences need a third charge before two coffees a week apart count
+const CADENCES: { id: Cadence; days: number; tolerance: number; perMonth: number; minCount: number }[] = [
+  { id: "weekly", days: 7, tolerance: 1, perMonth: 52 / 12, minCount: 3 },
+  { id: "biweekly", days: 15, tolerance: 2, perMonth: 2, minCount: 3 },
+  { id: "monthly", days: 30.4, tolerance: 4, perMonth: 1, minCount: 2 },
+  { id: "yearly", days: 365, tolerance: 10, perMonth: 1 / 12, minCount: 2 },
+];
+
+// Money that moves on a schedule but isn't something you subscribed to
+const NOT_SUBSCRIPTIONS = new Set(["cash_withdrawal", "spei_transfer"]);
+
+// Billed on a schedule by definition, so worth remembering from the first charge
+const BILLED_CATEGORIES = new Set(["subscription", "fitness"]);
+
+// Charges within this fraction of the latest one count as "the same price"
+const AMOUNT_TOLERANCE = 0.25;
+
+function chargesOf(txns: CategorizedTransaction[]): Charge[] {
+  return txns.flatMap(t => {
+    const merchant = merchantKey(t.description);
+    if (t.amount >= 0 || !merchant || NOT_SUBSCRIPTIONS.has(t.category)) return [];
+    return [{ merchant, amount: Math.round(Math.abs(t.amount) * 100) / 100, date: t.date }];
+  });
+}
+
+/**
+ * What a period keeps for next month's detection: one record per merchant
+ * whose charges all cost about the same, and that was charged at least twice,
+ * was saved before (`known`) or is a subscription or gym by keyword. Merchants
+ * billed at varying amounts (the taquería, Uber) and one-off purchases aren't
+ * saved at all.
+ */
+export function toChargeRecords(txns: CategorizedTransaction[], known: ChargeRecord[] = []): ChargeRecord[] {
+  const saved = new Set(known.map(c => c.merchant));
+  const billed = new Set(
+    txns.filter(t => BILLED_CATEGORIES.has(t.category)).map(t => merchantKey(t.description))
+  );
+  const byMerchant = new Map<string, Charge[]>();
+  for (const c of chargesOf(txns)) byMerchant.set(c.merchant, [...(byMerchant.get(c.merchant) ?? []), c]);
+
+  const records: ChargeRecord[] = [];
+  for (const charges of byMerchant.values()) {
+    const latest = charges.reduce((a, b) => (b.date > a.date ? b : a));
+    if (charges.some(c => Math.abs(c.amount - latest.amount) > latest.amount * AMOUNT_TOLERANCE)) continue;
+    if (charges.length < 2 && !saved.has(latest.merchant) && !billed.has(latest.merchant)) continue;
+    records.push({ ...latest, count: charges.length });
+  }
+  return records;
+}
+
+function cadenceOf(dates: string[]): (typeof CADENCES)[number] | null {
+  const gaps = dates.slice(1).map((d, i) => daysBetween(dates[i], d));
+  if (!gaps.length) return null;
+  return CADENCES.find(
+    c => dates.length >= c.minCount && gaps.every(g => Math.abs(g - c.days) <= c.tolerance)
+  ) ?? null;
+}
+
+/**
+ * Subscriptions active in the current upload. `history` holds the saved
+ * summaries of earlier periods, each standing in for its merchant's latest
+ * charge there; one repeated in the upload (the same month uploaded twice)
+ * counts once.
+ */
+export function detectSubscriptions(
+  current: CategorizedTransaction[],
+  history: ChargeRecord[]
+): Subscription[] {
+  const now = chargesOf(current);
+  const descriptions = new Map<string, string>();
+  for (const t of current) {
+    const key = merchantKey(t.description);
+    if (key) descriptions.set(key, t.description);
+  }
+
+  const groups = new Map<string, { charge: Charge; past: boolean }[]>();
+  const seen = new Set<string>();
+  for (const [charges, past] of [[history, true], [now, false]] as const) {
+    for (const charge of charges) {
+      const id = `${charge.merchant}|${charge.date}|${charge.amount}`;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      groups.set(charge.merchant, [...(groups.get(charge.merchant) ?? []), { charge, past }]);
+    }
+  }
+
+  const subscriptions: Subscription[] = [];
+  for (const [merchant, entries] of groups) {
+    entries.sort((a, b) => a.charge.date.localeCompare(b.charge.date));
+    const latest = entries.filter(e => !e.past).pop();
+    if (!latest) continue;
+
+    const ref = latest.charge.amount;
+    const similar = entries.filter(
+      e => e.charge.date <= latest.charge.date && Math.abs(e.charge.amount - ref) <= ref * AMOUNT_TOLERANCE
+    );
+
+    const cadence = cadenceOf(similar.map(e => e.charge.date));
+    if (!cadence) continue;
+
+    const last = similar[similar.length - 1].charge;
+    const prev = similar[similar.length - 2].charge;
+    subscriptions.push({
+      merchant,
+      description: descriptions.get(merchant) ?? merchant,
+      cadence: cadence.id,
+      amount: last.amount,
+      monthlyCost: Math.round(last.amount * cadence.perMonth * 100) / 100,
+      lastDate: last.date,
+      occurrences: similar.length,
+      isNew: similar.filter(e => e.past).length < 2,
+      previousAmount: Math.abs(last.amount - prev.amount) >= 1 ? prev.amount : undefined,
+    });
+  }
+
+  return subscriptions.sort((a, b) => b.monthlyCost - a.monthlyCost);
+}
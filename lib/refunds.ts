@@ -0,0 +1,73 @@
+// Refunds and chargebacks: a credit from a merchant you paid earlier. Left
+// alone, the purchase still counts as spending (and can win an award) while
+// the refund counts as income. Pairing lets effectiveTransactions() net them.
+
+import type { CategorizedTransaction, Category } from "./categorizer";
+import { merchantKey } from "./merchants";
+import type { MoneyMoveMark } from "./transfers";
+
+// Words banks put around the merchant name on a refund line
+const REFUND_WORDS = new Set([
+  "devolucion", "dev", "reembolso", "refund", "bonificacion", "cancelacion", "cancelado",
+  "contracargo", "reverso", "reversion", "rev", "credito", "ajuste",
+]);
+
+// Words that say "refund" on their own; the short and generic ones above
+// ("dev", "credito", "ajuste") only get stripped from the merchant name
+const REFUND_WORDING = new Set([
+  "devolucion", "reembolso", "refund", "bonificacion", "cancelacion", "cancelado",
+  "contracargo", "reverso", "reversion",
+]);
+
+// Money moving between people and accounts, not a purchase: a SPEI back from
+// the friend you paid, or cash deposited after a withdrawal, is not a refund
+const NOT_PURCHASES = new Set<Category>(["spei_transfer", "cash_withdrawal"]);
+
+const REFUND_DAYS = 90;
+
+function merchantTokens(description: string): string[] {
+  return merchantKey(description).split(" ").filter(w => w && !REFUND_WORDS.has(w));
+}
+
+/** One side's words all appear in the other: "amazon" vs "amazon marketplace" */
+function sameMerchant(a: string[], b: string[]): boolean {
+  if (!a.length || !b.length) return false;
+  const sb = new Set(b);
+  return a.filter(w => sb.has(w)).length === Math.min(a.length, b.length);
+}
+
+/**
+ * For each transaction, the index of the purchase it refunds, or undefined.
+ * A refund is an unpaired credit from the merchant of an earlier charge of
+ * at least the same amount, within REFUND_DAYS. Transfers and cash never
+ * pair, and uncategorized charges only pair with credits that say
+ * "devolución" or similar. The exact amount wins, then the latest charge;
+ * partial refunds share a purchase up to its amount.
+ */
+export function pairRefunds(
+  txns: CategorizedTransaction[],
+  moves: (MoneyMoveMark | null)[] = []
+): (number | undefined)[] {
+  const tokens = txns.map(t => merchantTokens(t.description));
+  const worded = txns.map(t => merchantKey(t.description).split(" ").some(w => REFUND_WORDING.has(w)));
+  const left = txns.map(t => (t.amount < 0 ? -t.amount : 0));  // refundable amount per purchase
+  const isCandidate = (i: number) => !moves[i] || (moves[i]?.kind === "reversal" && moves[i]?.pair === undefined);
+
+  return txns.map((refund, i) => {
+    if (refund.amount <= 0 || !isCandidate(i) || NOT_PURCHASES.has(refund.category)) return undefined;
+
+    let best: number | undefined;
+    txns.forEach((p, j) => {
+      if (moves[j] || left[j] + 0.005 < refund.amount || p.date > refund.date) return;
+      if (NOT_PURCHASES.has(p.category) || (!worded[i] && p.category === "other")) return;
+      if ((Date.parse(refund.date) - Date.parse(p.date)) / 86400000 > REFUND_DAYS) return;
+      if (!sameMerchant(tokens[i], tokens[j])) return;
+      if (best === undefined) { best = j; return; }
+      const exact = (k: number) => Math.abs(left[k] - refund.amount) < 0.005;
+      if (exact(j) !== exact(best) ? exact(j) : p.date >= txns[best].date) best = j;
+    });
+
+    if (best !== undefined) left[best] -= refund.amount;
+    return best;
+  });
+}
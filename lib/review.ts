@@ -0,0 +1,95 @@
+// State for the review step between parsing and awards. Each row is a
+// categorized transaction plus the user's decisions about it; awards and
+// totals are always computed from effectiveTransactions(), never the raw rows.
+
+import { categorizeTransactions } from "./categorizer";
+import type { CategorizedTransaction, CategorizerContext } from "./categorizer";
+import type { MoneyMove, MoneyMoveMark } from "./transfers";
+
+export interface ReviewRow extends CategorizedTransaction {
+  id: number;                // stable key while editing
+  excluded: boolean;         // user says this row isn't real (bad extraction, duplicate)
+  internal: boolean;         // money moved, not spent or earned: own transfer, card payment, reversal
+  move?: MoneyMove;          // why it was marked internal automatically
+  pairId?: number;           // id of the matching debit/credit
+  refundOf?: number;         // id of the purchase this credit refunds
+  categoryEdited: boolean;   // category was set by hand; don't recategorize on edits
+}
+
+export type ReviewEdit = Partial<
+  Pick<ReviewRow, "date" | "amount" | "description" | "category" | "excluded" | "internal">
+>;
+
+/**
+ * `moves` and `refunds` come from detectMoneyMoves() and pairRefunds() over
+ * the same transactions, in order. A reversal that turned out to be a refund
+ * is shown as the refund.
+ */
+export function toReviewRows(
+  txns: CategorizedTransaction[],
+  moves: (MoneyMoveMark | null)[] = [],
+  refunds: (number | undefined)[] = []
+): ReviewRow[] {
+  return txns.map((t, id) => {
+    const move = refunds[id] === undefined ? moves[id] : null;
+    return {
+      ...t,
+      id,
+      excluded: false,
+      internal: !!move,
+      move: move?.kind,
+      pairId: move?.pair,
+      refundOf: refunds[id],
+      categoryEdited: false,
+    };
+  });
+}
+
+/**
+ * Apply one edit. Changing the description re-runs the categorizer unless the
+ * user already picked a category for the row themselves.
+ */
+export function applyEdit(row: ReviewRow, edit: ReviewEdit, ctx: CategorizerContext = {}): ReviewRow {
+  const next: ReviewRow = { ...row, ...edit };
+  if (edit.category !== undefined) {
+    next.categoryEdited = true;
+    next.explanation = { source: "manual", runnersUp: [], notes: [] };
+  } else if (edit.description !== undefined && !row.categoryEdited) {
+    return { ...next, ...recategorize(next, ctx) };
+  }
+  return next;
+}
+
+/** Re-run the categorizer after rules or merchant memory changed; hand-picked categories stay */
+export function recategorizeRows(rows: ReviewRow[], ctx: CategorizerContext): ReviewRow[] {
+  return rows.map(r => (r.categoryEdited ? r : { ...r, ...recategorize(r, ctx) }));
+}
+
+function recategorize(t: CategorizedTransaction, ctx: CategorizerContext): Pick<CategorizedTransaction, "category" | "explanation"> {
+  const { category, explanation } = categorizeTransactions([t], ctx)[0];
+  return { category, explanation };
+}
+
+/** Total refunded per purchase id, counting only refunds that still count */
+export function refundTotals(rows: ReviewRow[]): Map<number, number> {
+  const totals = new Map<number, number>();
+  for (const r of rows) {
+    if (r.refundOf === undefined || r.excluded || r.internal) continue;
+    totals.set(r.refundOf, (totals.get(r.refundOf) ?? 0) + r.amount);
+  }
+  return totals;
+}
+
+/**
+ * Rows that count toward awards and spending: not excluded, not internal
+ * moves. A refunded purchase counts only for what wasn't refunded (nothing,
+ * if fully refunded) and its refunds drop out instead of counting as income.
+ */
+export function effectiveTransactions(rows: ReviewRow[]): CategorizedTransaction[] {
+  const counted = rows.filter(r => !r.excluded && !r.internal);
+  const ids = new Set(counted.map(r => r.id));
+  const refunded = refundTotals(rows);
+  return counted
+    .filter(r => r.refundOf === undefined || !ids.has(r.refundOf))
+    .map(r => (refunded.has(r.id) ? { ...r, amount: Math.min(0, r.amount + refunded.get(r.id)!) } : r));
+}
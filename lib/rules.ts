@@ -0,0 +1,103 @@
+// Persistence for what the user taught the categorizer: hand-written rules and
+// merchant memory, one set per session_id so they carry over to the next
+// upload. Matching lives in categorizer.ts and merchants.ts.
+//
+// Tables:
+//   category_rules  (id uuid default gen_random_uuid() primary key,
+//                    session_id text, kind text, pattern text, category text,
+//                    created_at timestamptz default now())
+//   merchant_memory (session_id text, merchant text, category text,
+//                    updated_at timestamptz default now(),
+//                    primary key (session_id, merchant))
+
+import { supabase } from "./supabase";
+import { CATEGORY_LABELS } from "./categorizer";
+import type { Category, CategoryRule } from "./categorizer";
+import type { MerchantMemory } from "./merchants";
+
+// Categories that were renamed or split; saved rows may still use them
+const LEGACY_CATEGORIES: Record<string, Category> = {
+  subscription_gym: "subscription",
+};
+
+/** Current category for a stored value, or null if it no longer exists */
+export function storedCategory(value: string): Category | null {
+  if (value in CATEGORY_LABELS) return value as Category;
+  return LEGACY_CATEGORIES[value] ?? null;
+}
+
+// ─── Rules ────────────────────────────────────────────────────────────────────
+
+export async function loadRules(sessionId: string): Promise<CategoryRule[]> {
+  const { data, error } = await supabase
+    .from("category_rules")
+    .select("id, kind, pattern, category")
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Supabase rules error:", error.message);
+    return [];
+  }
+  return ((data ?? []) as CategoryRule[]).flatMap(r => {
+    const category = storedCategory(r.category);
+    return category ? [{ ...r, category }] : [];
+  });
+}
+
+/** Returns the saved rule with its id, or null if the insert failed */
+export async function saveRule(sessionId: string, rule: CategoryRule): Promise<CategoryRule | null> {
+  const { data, error } = await supabase
+    .from("category_rules")
+    .insert({ session_id: sessionId, kind: rule.kind, pattern: rule.pattern.trim(), category: rule.category })
+    .select("id, kind, pattern, category")
+    .single();
+
+  if (error) {
+    console.error("Supabase rules error:", error.message);
+    return null;
+  }
+  return data as CategoryRule;
+}
+
+export async function deleteRule(sessionId: string, id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from("category_rules")
+    .delete()
+    .eq("session_id", sessionId)
+    .eq("id", id);
+
+  if (error) console.error("Supabase rules error:", error.message);
+  return !error;
+}
+
+// ─── Merchant memory ──────────────────────────────────────────────────────────
+
+export async function loadMerchantMemory(sessionId: string): Promise<MerchantMemory> {
+  const { data, error } = await supabase
+    .from("merchant_memory")
+    .select("merchant, category")
+    .eq("session_id", sessionId);
+
+  if (error) {
+    console.error("Supabase merchant memory error:", error.message);
+    return {};
+  }
+  return Object.fromEntries(
+    ((data ?? []) as { merchant: string; category: string }[])
+      .map(r => [r.merchant, storedCategory(r.category)])
+      .filter(([, category]) => category)
+  );
+}
+
+/** `merchant` is already a merchantKey(); the latest correction wins */
+export async function rememberMerchant(sessionId: string, merchant: string, category: Category): Promise<void> {
+  const { error } = await supabase
+    .from("merchant_memory")
+    .upsert(
+      { session_id: sessionId, merchant, category, updated_at: new Date().toISOString() },
+      { onConflict: "session_id,merchant" }
+    );
+
+  if (error) console.error("Supabase merchant memory error:", error.message);
+}
@@ -0,0 +1,108 @@
+// Money that moves without being spent: transfers between the user's own
+// accounts, credit card payments and bank reversals. Counting them inflates
+// spending (the card payment *and* the card purchases) and income (your own
+// transfer "paying you back"), so the review step marks them as internal.
+
+import { foldText, kwMatches } from "./categorizer";
+import type { CategorizedTransaction, Category } from "./categorizer";
+import type { Transaction } from "./parser";
+
+export type MoneyMove = "self_transfer" | "card_payment" | "reversal";
+
+export interface MoneyMoveMark {
+  kind: MoneyMove;
+  pair?: number;  // index of the matching debit/credit, when one was found
+}
+
+export const MONEY_MOVE_LABELS: Record<MoneyMove, string> = {
+  self_transfer: "Traspaso entre tus cuentas",
+  card_payment: "Pago de tarjeta",
+  reversal: "Reverso",
+};
+
+// Same syntax as KEYWORDS in categorizer.ts
+const CARD_PAYMENT = [
+  "pago tdc", "pago tc", "pago a tc", "pago tarjeta", "pago a tarjeta", "pago de tarjeta",
+  "pago a tu tarjeta", "pago credito", "pago a credito", "su pago gracias", "gracias por su pago",
+  "pago recibido", "abono a tarjeta", "pago minimo",
+];
+
+// Wording banks use when both sides are yours
+const OWN_ACCOUNTS = [
+  "traspaso", "entre cuentas", "entre mis cuentas", "cuenta propia", "cuentas propias",
+  "apartado", "=cajita", "ahorro", "inversion",
+];
+
+// Any hint of a transfer at all; enough to pair across two of your files
+const TRANSFER = [...OWN_ACCOUNTS, "spei", "transferencia", "=transf", "envio", "deposito", "=codi"];
+
+// What a transfer or card payment can categorize as; a debit in any other
+// category bought something, whatever the credit beside it says
+const MOVE_CATEGORIES = new Set<Category>(["spei_transfer", "cash_withdrawal", "bank_fee", "other"]);
+
+const REVERSAL = ["reverso", "reversion", "contracargo", "cancelacion de cargo", "cargo cancelado"];
+
+const TRANSFER_DAYS = 3;   // SPEI is same-day; cards and weekends take longer
+const REVERSAL_DAYS = 15;
+
+/** A card statement lists your payments to the card as credits ("su pago, gracias") */
+export function isCardStatement(txns: Transaction[]): boolean {
+  return txns.some(t => t.amount > 0 && CARD_PAYMENT.some(kw => kwMatches(foldText(t.description), kw)));
+}
+
+function days(a: string, b: string): number {
+  return Math.abs(Date.parse(b) - Date.parse(a)) / 86400000;
+}
+
+/**
+ * One mark per transaction (same order), or null for ordinary spending and
+ * income. A debit and a credit pair up when they have the same amount within
+ * a few days and either:
+ *   - the credit says it's a reversal → both are "reversal";
+ *   - they're in different files, both mention a transfer or card payment
+ *     and the debit isn't a purchase → "card_payment" or "self_transfer";
+ *   - they're in the same file and both say own-account ("traspaso").
+ * Card payments and reversals with no counterpart are still marked: paying
+ * the card isn't new spending, and a reversal isn't income.
+ */
+export function detectMoneyMoves(txns: CategorizedTransaction[]): (MoneyMoveMark | null)[] {
+  const folded = txns.map(t => foldText(t.description));
+  const has = (i: number, list: string[]) => list.some(kw => kwMatches(folded[i], kw));
+  const marks: (MoneyMoveMark | null)[] = txns.map(() => null);
+
+  const pairKind = (debit: number, credit: number): MoneyMove | null => {
+    const a = txns[debit], b = txns[credit];
+    if (has(credit, REVERSAL)) {
+      return b.date >= a.date && days(a.date, b.date) <= REVERSAL_DAYS ? "reversal" : null;
+    }
+    if (days(a.date, b.date) > TRANSFER_DAYS) return null;
+    const card = has(debit, CARD_PAYMENT) || has(credit, CARD_PAYMENT);
+    if (a.account !== b.account) {
+      const moves = (i: number) => has(i, TRANSFER) || has(i, CARD_PAYMENT);
+      if (!MOVE_CATEGORIES.has(a.category) || !moves(debit) || !moves(credit)) return null;
+      return card ? "card_payment" : "self_transfer";
+    }
+    return has(debit, OWN_ACCOUNTS) && has(credit, OWN_ACCOUNTS) ? "self_transfer" : null;
+  };
+
+  txns.forEach((d, i) => {
+    if (d.amount >= 0 || marks[i]) return;
+    for (let j = 0; j < txns.length; j++) {
+      const c = txns[j];
+      if (c.amount <= 0 || marks[j] || Math.abs(c.amount + d.amount) >= 0.005) continue;
+      const kind = pairKind(i, j);
+      if (!kind) continue;
+      marks[i] = { kind, pair: j };
+      marks[j] = { kind, pair: i };
+      break;
+    }
+  });
+
+  txns.forEach((_, i) => {
+    if (marks[i]) return;
+    if (has(i, CARD_PAYMENT)) marks[i] = { kind: "card_payment" };
+    else if (txns[i].amount > 0 && has(i, REVERSAL)) marks[i] = { kind: "reversal" };
+  });
+
+  return marks;
+}
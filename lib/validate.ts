@@ -0,0 +1,173 @@
+// Checks for transactions we didn't read ourselves. Model output is coerced
+// into the Transaction shape where that's unambiguous and rejected with a
+// reason where it isn't; the result is then reconciled against the totals the
+// statement prints, so a dropped or invented row shows up as a warning.
+
+import { detectDecimalSeparator, parseAmount, parseDate } from "./formats";
+import type { Transaction } from "./parser";
+
+// ─── Item validation ─────────────────────────────────────────────────────────
+
+export interface RejectedItem {
+  index: number;       // position in the model's array
+  item: unknown;
+  reason: string;      // user-facing, Spanish
+}
+
+export interface ValidationResult {
+  transactions: Transaction[];
+  rejected: RejectedItem[];
+  repaired: number;    // items kept only after coercing a field
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+export function validateTransactions(items: unknown[]): ValidationResult {
+  const out: ValidationResult = { transactions: [], rejected: [], repaired: 0 };
+  const stringAmounts = items
+    .map(it => (isRecord(it) && typeof it.amount === "string" ? it.amount : ""))
+    .filter(Boolean);
+  const decimal = detectDecimalSeparator(stringAmounts);
+
+  items.forEach((item, index) => {
+    const reject = (reason: string) => out.rejected.push({ index, item, reason });
+    if (!isRecord(item)) return reject("No es un objeto");
+
+    let repaired = false;
+
+    let amount: number;
+    if (typeof item.amount === "number") amount = item.amount;
+    else if (typeof item.amount === "string") {
+      amount = parseAmount(item.amount, decimal);
+      repaired = true;
+    } else return reject("Falta el monto");
+    if (!Number.isFinite(amount)) return reject(`Monto inválido: ${String(item.amount)}`);
+    if (amount === 0) return reject("Monto en cero");
+
+    if (typeof item.date !== "string") return reject("Falta la fecha");
+    const date = parseDate(item.date);
+    if (!date) return reject(`Fecha inválida: ${item.date}`);
+    if (date !== item.date) repaired = true;
+
+    let description = "";
+    if (typeof item.description === "string") description = item.description.trim();
+    else if (item.description != null) {
+      description = String(item.description).trim();
+      repaired = true;
+    }
+
+    out.transactions.push({ date, amount, description });
+    if (repaired) out.repaired++;
+  });
+
+  return out;
+}
+
+// ─── Reconciliation ──────────────────────────────────────────────────────────
+
+export interface StatementTotals {
+  openingBalance?: number;
+  closingBalance?: number;
+  totalDebits?: number;
+  totalCredits?: number;
+}
+
+// Rest of the line after the label; the amount is the last one with cents on
+// it, once dates are out of the way ("Saldo anterior al 31.12.2025 1,000.00")
+const REST = String.raw`([^\n]*)`;
+const DATE_TOKEN = /(?<![\d.,])\d{1,4}[./-]\d{1,2}[./-]\d{2,4}(?![\d.,])/g;
+const AMOUNT_TOKEN = /-?\$?\s?\d[\d.,]*[.,]\d{2}(?!\d)/g;
+
+const TOTAL_PATTERNS: [keyof StatementTotals, RegExp][] = [
+  ["openingBalance", new RegExp(String.raw`saldo\s+(anterior|inicial)` + REST, "gi")],
+  ["closingBalance", new RegExp(String.raw`(saldo\s+(final|actual|al\s+corte)|nuevo\s+saldo)` + REST, "gi")],
+  ["totalDebits",    new RegExp(String.raw`total\s+(de\s+)?(cargos|retiros|d[eé]bitos)` + REST, "gi")],
+  ["totalCredits",   new RegExp(String.raw`total\s+(de\s+)?(abonos|dep[oó]sitos|cr[eé]ditos)` + REST, "gi")],
+];
+
+/** Opening/closing balance and totals printed anywhere in the statement text */
+export function findStatementTotals(text: string): StatementTotals {
+  const totals: StatementTotals = {};
+  const candidates = (text.match(/-?\$?\s?\d[\d.,]*\d/g) ?? []).slice(0, 500);
+  const decimal = detectDecimalSeparator(candidates);
+  for (const [key, re] of TOTAL_PATTERNS) {
+    // First labelled line that carries an amount; some print it on the next line
+    for (const m of text.matchAll(re)) {
+      const amounts = m[m.length - 1].replace(DATE_TOKEN, " ").match(AMOUNT_TOKEN);
+      if (!amounts) continue;
+      const n = parseAmount(amounts[amounts.length - 1], decimal);
+      if (Number.isFinite(n)) totals[key] = n;
+      break;
+    }
+  }
+  return totals;
+}
+
+export interface StatementBalances {
+  opening?: number;
+  closing?: number;
+}
+
+/**
+ * Opening and closing balance: the printed summary when there is one, else
+ * worked out from the per-row "Saldo" column (`txns` in date order). When only
+ * one side is known the other follows from the transactions, which is enough
+ * for a balance simulation but can't be reconciled.
+ */
+export function resolveBalances(txns: Transaction[], stated: StatementTotals): StatementBalances {
+  let opening = stated.openingBalance;
+  let closing = stated.closingBalance;
+  const sum = (from: number, to: number) => txns.slice(from, to).reduce((s, t) => s + t.amount, 0);
+
+  const first = txns.findIndex(t => t.balance !== undefined);
+  if (first >= 0) {
+    let last = first;
+    txns.forEach((t, i) => { if (t.balance !== undefined) last = i; });
+    // Saldo is printed after the row's own amount
+    opening ??= txns[first].balance! - sum(0, first + 1);
+    closing ??= txns[last].balance! + sum(last + 1, txns.length);
+  }
+
+  const total = sum(0, txns.length);
+  if (opening !== undefined && closing === undefined) closing = opening + total;
+  if (closing !== undefined && opening === undefined) opening = closing - total;
+  const round = (n?: number) => (n === undefined ? n : Math.round(n * 100) / 100);
+  return { opening: round(opening), closing: round(closing) };
+}
+
+// Statements round per line; allow a peso of drift over the whole period
+const TOLERANCE = 1;
+
+function mxn(n: number): string {
+  return "$" + n.toLocaleString("es-MX", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/** Warnings (Spanish, user-facing) for every printed total the transactions don't add up to */
+export function reconcile(txns: Transaction[], totals: StatementTotals): string[] {
+  const warnings: string[] = [];
+  const debits = txns.filter(t => t.amount < 0).reduce((s, t) => s + Math.abs(t.amount), 0);
+  const credits = txns.filter(t => t.amount > 0).reduce((s, t) => s + t.amount, 0);
+
+  if (totals.totalDebits !== undefined && Math.abs(Math.abs(totals.totalDebits) - debits) > TOLERANCE) {
+    warnings.push(
+      `Los cargos suman ${mxn(debits)} pero el estado de cuenta dice ${mxn(Math.abs(totals.totalDebits))}.`
+    );
+  }
+  if (totals.totalCredits !== undefined && Math.abs(totals.totalCredits - credits) > TOLERANCE) {
+    warnings.push(
+      `Los abonos suman ${mxn(credits)} pero el estado de cuenta dice ${mxn(totals.totalCredits)}.`
+    );
+  }
+  if (totals.openingBalance !== undefined && totals.closingBalance !== undefined) {
+    const expected = totals.openingBalance + credits - debits;
+    if (Math.abs(expected - totals.closingBalance) > TOLERANCE) {
+      warnings.push(
+        `Con saldo inicial de ${mxn(totals.openingBalance)} el saldo final debería ser ${mxn(expected)}, ` +
+        `pero el estado de cuenta dice ${mxn(totals.closingBalance)}.`
+      );
+    }
+  }
+  return warnings;
+}
@@ -0,0 +1,46 @@
+-- quincena_results goes from one row per (session_id, month) to one row per
+-- (session_id, period); see lib/periods.ts for the period keys. Also adds
+-- charges, the recurring-charge summaries from lib/recurring.ts.
+
+alter table quincena_results
+  add column if not exists period       text,
+  add column if not exists period_start date,
+  add column if not exists period_end   date,
+  add column if not exists charges      jsonb;
+
+-- Rows saved before periods existed covered a whole month: their key is the
+-- month itself ("2026-03"), so uploading that month again in "Mes completo"
+-- replaces them instead of adding a second row
+update quincena_results
+set period       = month,
+    period_start = to_date(month || '-01', 'YYYY-MM-DD'),
+    period_end   = (date_trunc('month', to_date(month || '-01', 'YYYY-MM-DD')) + interval '1 month - 1 day')::date
+where period is null;
+
+alter table quincena_results alter column period set not null;
+
+-- Both quincenas of a month share `month`, so the old key has to go, whether
+-- it was declared as a unique constraint or as the primary key
+do $$
+declare
+  c record;
+begin
+  for c in
+    select con.conname
+    from pg_constraint con
+    where con.conrelid = 'quincena_results'::regclass
+      and con.contype in ('u', 'p')
+      and (
+        select array_agg(a.attname::text order by a.attname)
+        from pg_attribute a
+        where a.attrelid = con.conrelid and a.attnum = any (con.conkey)
+      ) = array['month', 'session_id']
+  loop
+    execute format('alter table quincena_results drop constraint %I', c.conname);
+  end loop;
+end $$;
+
+drop index if exists quincena_results_session_id_month_key;
+
+alter table quincena_results
+  add constraint quincena_results_session_id_period_key unique (session_id, period);
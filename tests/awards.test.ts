@@ -0,0 +1,55 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { AWARDS, evaluateAward } from "../lib/awards";
+import { categorizeTransactions } from "../lib/categorizer";
+import type { Transaction } from "../lib/parser";
+import { periodFromKey } from "../lib/periods";
+
+// One file per award in fixtures/awards, named by its id: a period, saved
+// history for the awards that compare against it, and statements that should
+// (or shouldn't) win it. A case may bring its own period or history.
+interface StoredPeriod {
+  period: string;
+  total_spent: number;
+  category_totals: Record<string, number> | null;
+}
+
+interface AwardFixture {
+  period: string;
+  history?: StoredPeriod[];
+  cases: {
+    name: string;
+    period?: string;
+    history?: StoredPeriod[];
+    wins: boolean;
+    trigger?: number;
+    roast?: string;  // text the roast must contain
+    transactions: Transaction[];
+  }[];
+}
+
+const dir = path.join(__dirname, "..", "fixtures", "awards");
+
+for (const file of readdirSync(dir).filter(f => f.endsWith(".json"))) {
+  const id = path.basename(file, ".json");
+  const fixture: AwardFixture = JSON.parse(readFileSync(path.join(dir, file), "utf-8"));
+
+  describe(id, () => {
+    const def = AWARDS.find(a => a.id === id);
+
+    it("is a declared award", () => {
+      expect(def).toBeDefined();
+    });
+
+    it.each(fixture.cases)("$name", ({ period, history, wins, trigger, roast, transactions }) => {
+      const award = evaluateAward(def!, categorizeTransactions(transactions), {
+        period: periodFromKey(period ?? fixture.period),
+        history: (history ?? fixture.history ?? []).map(h => ({ ...h, period: periodFromKey(h.period) })),
+      });
+      expect(award !== null).toBe(wins);
+      if (trigger !== undefined) expect(award?.trigger_value).toBe(trigger);
+      if (roast !== undefined) expect(award?.roast_text).toContain(roast);
+    });
+  });
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { BANK_PROFILES, detectProfile, getProfile, matchProfile, normalizeHeader } from "../lib/banks";
+
+describe("normalizeHeader", () => {
+  it("drops the BOM, accents and punctuation", () => {
+    expect(normalizeHeader("\uFEFFDescripción")).toBe("descripcion");
+    expect(normalizeHeader("Cargo/Abono")).toBe("cargoabono");
+    expect(normalizeHeader("  Fecha  de   Operación ")).toBe("fecha de operacion");
+  });
+});
+
+describe("detectProfile", () => {
+  it("finds the header below a bank's metadata block", () => {
+    const m = detectProfile([
+      ["BBVA México"],
+      ["Cuenta", "0123456789"],
+      [],
+      ["Fecha", "Concepto", "Cargo", "Abono", "Saldo"],
+      ["05/03/2026", "OXXO", "45.00", "", "1,955.00"],
+    ]);
+    expect(m).toMatchObject({ profile: { id: "bbva" }, headerRow: 3 });
+    expect(m?.cols).toMatchObject({ date: 0, description: 1, debit: 2, credit: 3, balance: 4 });
+    expect(m?.preamble).toHaveLength(3);
+  });
+
+  it("keeps Santander's Cargo/Abono column for the sign", () => {
+    const m = detectProfile([
+      ["Santander"],
+      ["Fecha", "Descripción", "Cargo/Abono", "Importe", "Saldo"],
+    ]);
+    expect(m?.profile.id).toBe("santander");
+    expect(m?.cols).toMatchObject({ sign: 2, amount: 3 });
+  });
+
+  it("maps Nu's split date columns", () => {
+    const m = detectProfile([
+      ["Nu México"],
+      ["Día", "Mes", "Año", "Comercio", "Monto"],
+    ]);
+    expect(m?.profile.id).toBe("nu");
+    expect(m?.cols).toMatchObject({ date: -1, day: 0, month: 1, year: 2, description: 3, amount: 4 });
+  });
+
+  it("prefers Mercado Pago's release date over a plain fecha", () => {
+    const m = detectProfile([
+      ["Reporte Mercado Pago"],
+      ["Fecha", "Fecha de liberación", "Descripción", "Monto neto"],
+    ]);
+    expect(m?.cols.date).toBe(1);
+  });
+
+  it("falls back to the generic profile without a bank marker", () => {
+    expect(detectProfile([["Fecha", "Descripción", "Monto"]])?.profile.id).toBe("generic");
+  });
+
+  it("tries bank layouts last for an unmarked file", () => {
+    expect(detectProfile([["Fecha", "Descripción", "Retiros", "Depósitos"]])?.profile.id).toBe("banorte");
+  });
+
+  it("gives up when no row has a date and an amount", () => {
+    expect(detectProfile([["Nombre", "Teléfono"], ["Ana", "5512345678"]])).toBeNull();
+  });
+});
+
+describe("matchProfile", () => {
+  it("returns null when the profile's columns are missing", () => {
+    const hsbc = getProfile("hsbc")!;
+    expect(matchProfile([["Fecha", "Concepto", "Cargo", "Abono"]], hsbc)).toBeNull();
+  });
+
+  it("knows every listed profile by id", () => {
+    for (const p of BANK_PROFILES) expect(getProfile(p.id)).toBe(p);
+    expect(getProfile("generic")?.name).toBe("Genérico");
+    expect(getProfile("nope")).toBeUndefined();
+  });
+});
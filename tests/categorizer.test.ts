@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { categorizeTransactions, foldText, kwMatches } from "../lib/categorizer";
+import type { Category } from "../lib/categorizer";
+import fixtures from "../fixtures/categorizer/descriptions.json";
+
+// Descriptions as they print on real statements, including the ones that
+// used to land in the wrong category when keywords matched anywhere
+const cases = fixtures as { description: string; category: Category }[];
+
+describe("categorizeTransactions", () => {
+  it.each(cases)("$description → $category", ({ description, category }) => {
+    const [t] = categorizeTransactions([{ date: "2026-01-01", amount: -100, description }]);
+    expect(t.category).toBe(category);
+  });
+});
+
+describe("kwMatches", () => {
+  it("ignores accents and casing on both sides", () => {
+    expect(kwMatches(foldText("COMISIÓN POR APERTURA"), "comision")).toBe(true);
+    expect(kwMatches(foldText("comision por apertura"), "Comisión")).toBe(true);
+  });
+
+  it("matches at the start of a word only", () => {
+    expect(kwMatches(foldText("OMEGA RELOJERIA"), "mega")).toBe(false);
+    expect(kwMatches(foldText("FARMACIAS DEL AHORRO"), "farmacia")).toBe(true);
+  });
+
+  it("requires the whole word with =", () => {
+    expect(kwMatches(foldText("SIXT RENT A CAR"), "=six")).toBe(false);
+    expect(kwMatches(foldText("SIX TIENDAS"), "=six")).toBe(true);
+  });
+
+  it("anchors to the start of the description with ^", () => {
+    expect(kwMatches(foldText("REST EL CARDENAL"), "^rest ")).toBe(true);
+    expect(kwMatches(foldText("PAGO REST EL CARDENAL"), "^rest ")).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { chunkPages, mergeChunks, splitChunk } from "../lib/chunks";
+import type { Transaction } from "../lib/parser";
+
+const t = (date: string, amount: number, description: string): Transaction => ({ date, amount, description });
+
+describe("mergeChunks", () => {
+  it("drops the transactions repeated across a chunk border", () => {
+    const { transactions, duplicates } = mergeChunks([
+      [t("2026-03-01", -50, "OXXO"), t("2026-03-02", -120, "UBER TRIP")],
+      [t("2026-03-02", -120, "UBER TRIP"), t("2026-03-03", -300, "SORIANA")],
+    ]);
+    expect(transactions.map(x => x.description)).toEqual(["OXXO", "UBER TRIP", "SORIANA"]);
+    expect(duplicates).toBe(1);
+  });
+
+  it("keeps a genuine repeat further into the next chunk", () => {
+    const { transactions, duplicates } = mergeChunks([
+      [t("2026-03-01", -50, "OXXO"), t("2026-03-01", -80, "STARBUCKS"), t("2026-03-01", -90, "VIPS"),
+       t("2026-03-01", -100, "SANBORNS")],
+      [t("2026-03-02", -60, "RAPPI"), t("2026-03-02", -70, "DIDI"), t("2026-03-02", -75, "UBER TRIP"),
+       t("2026-03-01", -50, "OXXO")],
+    ]);
+    expect(transactions).toHaveLength(8);
+    expect(duplicates).toBe(0);
+  });
+
+  it("keeps two identical charges when only one sits in the overlap", () => {
+    const { transactions } = mergeChunks([
+      [t("2026-03-01", -50, "OXXO")],
+      [t("2026-03-01", -50, "OXXO"), t("2026-03-01", -50, "OXXO")],
+    ]);
+    expect(transactions).toHaveLength(2);
+  });
+});
+
+describe("chunkPages", () => {
+  it("repeats the last lines of each chunk at the start of the next", () => {
+    const page = Array.from({ length: 400 }, (_, i) => `01/03 MOVIMIENTO ${i} ${"x".repeat(30)} -100.00`).join("\n");
+    const chunks = chunkPages([page]);
+    expect(chunks.length).toBeGreaterThan(1);
+    const first = chunks[0].text.split("\n");
+    expect(chunks[1].text.split("\n").slice(0, 3)).toEqual(first.slice(-3));
+  });
+
+  it("splits a chunk in two halves that still overlap", () => {
+    const text = Array.from({ length: 20 }, (_, i) => `línea ${i}`).join("\n");
+    const [a, b] = splitChunk({ text, firstPage: 1, lastPage: 1 })!;
+    expect(b.text.split("\n")[0]).toBe(a.text.split("\n").slice(-3)[0]);
+  });
+});
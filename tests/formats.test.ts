@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectDateOrder, detectDecimalSeparator, excelSerialToISO, parseAmount, parseDate, parseMonth,
+} from "../lib/formats";
+
+describe("parseAmount", () => {
+  it.each([
+    ["$1,234.56", ".", 1234.56],
+    ["1.234,56", ",", 1234.56],
+    ["-120", ".", -120],
+    ["120.00-", ".", -120],
+    ["(120.00)", ".", -120],
+    ["120.00 CR", ".", 120],
+    ["120.00 DR", ".", -120],
+    ["MXN 2,500.00", ".", 2500],
+    ["+45,5", ",", 45.5],
+  ] as const)("%s with %s decimals → %d", (s, decimal, expected) => {
+    expect(parseAmount(s, decimal)).toBe(expected);
+  });
+
+  it("is NaN when nothing numeric is left", () => {
+    expect(parseAmount("")).toBeNaN();
+    expect(parseAmount("N/A")).toBeNaN();
+  });
+});
+
+describe("detectDecimalSeparator", () => {
+  it("lets unambiguous cells vote", () => {
+    expect(detectDecimalSeparator(["1.234,56", "12,50", "1,234"])).toBe(",");
+    expect(detectDecimalSeparator(["1,234.56", "12.5", "1.234"])).toBe(".");
+  });
+
+  it("defaults to a dot when every cell abstains", () => {
+    expect(detectDecimalSeparator(["1,234", "500"])).toBe(".");
+  });
+});
+
+describe("parseDate", () => {
+  it.each([
+    ["05/01/2026", "2026-01-05"],
+    ["05-01-26", "2026-01-05"],
+    ["2026-01-05", "2026-01-05"],
+    ["2026/1/5", "2026-01-05"],
+    ["05-ENE-2026", "2026-01-05"],
+    ["05/ene/26", "2026-01-05"],
+    ["5 septiembre 2026", "2026-09-05"],
+    ["05/01/2026 14:32", "2026-01-05"],
+    ["46027", "2026-01-05"],
+  ])("%s → %s", (s, expected) => {
+    expect(parseDate(s)).toBe(expected);
+  });
+
+  it("reads month first when told to", () => {
+    expect(parseDate("01/05/2026", "mdy")).toBe("2026-01-05");
+  });
+
+  it("rejects impossible dates", () => {
+    expect(parseDate("31/02/2026")).toBeNull();
+    expect(parseDate("05/13/2026")).toBeNull();
+    expect(parseDate("ayer")).toBeNull();
+  });
+});
+
+describe("detectDateOrder", () => {
+  it("settles on the side that goes above 12", () => {
+    expect(detectDateOrder(["01/02/2026", "25/02/2026"])).toBe("dmy");
+    expect(detectDateOrder(["01/02/2026", "02/25/2026"])).toBe("mdy");
+    expect(detectDateOrder(["01/02/2026"])).toBe("dmy");
+  });
+});
+
+describe("parseMonth and excelSerialToISO", () => {
+  it("reads month names and numbers", () => {
+    expect(["1", "01", "ene", "Enero", "SEPT", "dic.", "Aug", "foo"].map(parseMonth)).toEqual([1, 1, 1, 1, 9, 12, 8, 0]);
+  });
+
+  it("drops the time from an Excel serial", () => {
+    expect(excelSerialToISO(46027.75)).toBe("2026-01-05");
+  });
+});
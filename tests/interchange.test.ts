@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { parseCAMT053, parseMT940, parseOFX } from "../lib/interchange";
+
+const entry = (amount: string, indicator: string, name: string, reversal = false) => `
+      <Ntry>
+        <Amt Ccy="MXN">${amount}</Amt>
+        <CdtDbtInd>${indicator}</CdtDbtInd>${reversal ? "\n        <RvslInd>true</RvslInd>" : ""}
+        <BookgDt><Dt>2026-03-10</Dt></BookgDt>
+        <NtryDtls><TxDtls><RltdPties>
+          <Dbtr><Nm>${name}</Nm></Dbtr><Cdtr><Nm>${name}</Nm></Cdtr>
+        </RltdPties></TxDtls></NtryDtls>
+      </Ntry>`;
+
+const camt = (...entries: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="MXN">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+      <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="MXN">500.00</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>${entries.join("")}
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+describe("parseCAMT053", () => {
+  it("signs entries by CdtDbtInd and reads the stated balances", () => {
+    const result = parseCAMT053(camt(entry("700.00", "DBIT", "LIVERPOOL"), entry("200.00", "CRDT", "JUAN PEREZ")));
+    expect(result.transactions.map(t => [t.amount, t.description])).toEqual([[-700, "LIVERPOOL"], [200, "JUAN PEREZ"]]);
+    expect(result.balances).toMatchObject({ opening: 1000, closing: 500 });
+  });
+
+  it("takes a reversal's sign from CdtDbtInd alone", () => {
+    const result = parseCAMT053(camt(
+      entry("300.00", "CRDT", "LIVERPOOL", true),
+      entry("50.00", "DBIT", "JUAN PEREZ", true),
+    ));
+    expect(result.transactions.map(t => t.amount)).toEqual([300, -50]);
+  });
+});
+
+describe("parseOFX", () => {
+  const ofx = (...amounts: string[]) => `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+${amounts.map((a, i) => `<STMTTRN><TRNTYPE>OTHER<DTPOSTED>2026031${i}<TRNAMT>${a}<NAME>COMERCIO ${i}</STMTTRN>`).join("\n")}
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+  it("reads amounts with thousands separators", () => {
+    expect(parseOFX(ofx("-1,234.56", "2,000.00")).transactions.map(t => t.amount)).toEqual([-1234.56, 2000]);
+    expect(parseOFX(ofx("1.500,25", "-80,00")).transactions.map(t => t.amount)).toEqual([1500.25, -80]);
+  });
+});
+
+describe("parseMT940", () => {
+  const mt940 = `:20:STMT2603
+:25:012180001234567890
+:28C:00042/001
+:60F:C260301MXN1500,00
+:61:2603050305D250,00NTRFNONREF//BK001
+:86:?20PAGO SERVICIO?32CFE SUMINISTRADOR
+?33DE SERVICIOS
+:61:260306C1000,50NTRFNOMINA
+:86:/NAME/EMPRESA SA/REMI/QUINCENA
+:61:260307RD250,00NTRFNONREF
+:61:260308RC80,00NTRFNONREF
+:86:CARGO POR ABONO DUPLICADO
+:62F:C260331MXN2420,50
+-}`;
+
+  it("signs :61: lines, including reversal codes", () => {
+    const result = parseMT940(mt940);
+    expect(result.transactions.map(t => [t.date, t.amount])).toEqual([
+      ["2026-03-05", -250], ["2026-03-06", 1000.5], ["2026-03-07", 250], ["2026-03-08", -80],
+    ]);
+    expect(result.balances).toMatchObject({ opening: 1500, closing: 2420.5 });
+  });
+
+  it("takes the payee from the :86: narrative", () => {
+    expect(parseMT940(mt940).transactions.map(t => t.description)).toEqual([
+      "CFE SUMINISTRADOR DE SERVICIOS", "EMPRESA SA", "NONREF", "CARGO POR ABONO DUPLICADO",
+    ]);
+  });
+});
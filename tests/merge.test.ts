@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { accountLabel, mergeStatements, similarDescriptions } from "../lib/merge";
+import type { Transaction } from "../lib/parser";
+import type { SourceFile } from "../lib/merge";
+
+const file = (name: string, transactions: Transaction[]): SourceFile => ({
+  name,
+  result: {
+    transactions,
+    diagnostics: transactions.map((_, i) => ({ line: i + 2, confidence: 1, warnings: [] })),
+    skipped: [],
+    format: { source: "csv" },
+    balances: {},
+    warnings: [],
+  },
+});
+
+describe("mergeStatements", () => {
+  it("tags each upload as its own account, even with the same name", () => {
+    const merged = mergeStatements([
+      file("bbva.csv", [{ date: "2026-03-02", amount: -50, description: "OXXO" }]),
+      file("bbva.csv", [{ date: "2026-03-01", amount: -120, description: "UBER TRIP" }]),
+    ]);
+    expect(merged.transactions.map(t => [t.date, t.account, t.accountLabel])).toEqual([
+      ["2026-03-01", "f2", "bbva"],
+      ["2026-03-02", "f1", "bbva"],
+    ]);
+    expect(merged.diagnostics.map(d => d.line)).toEqual([2, 2]);
+  });
+
+  it("drops a charge that shows up in a second file", () => {
+    const merged = mergeStatements([
+      file("enero_q1.csv", [{ date: "2026-01-14", amount: -89, description: "UBER *TRIP" }]),
+      file("enero.csv", [
+        { date: "2026-01-14", amount: -89, description: "UBER TRIP HELP.UBER.COM" },
+        { date: "2026-01-20", amount: -300, description: "LIVERPOOL" },
+      ]),
+    ]);
+    expect(merged.transactions.map(t => t.description)).toEqual(["UBER *TRIP", "LIVERPOOL"]);
+    expect(merged.duplicates).toHaveLength(1);
+    expect(merged.duplicates[0].dropped.account).toBe("f2");
+  });
+
+  it("keeps repeated charges within one file", () => {
+    const oxxo = { date: "2026-03-02", amount: -50, description: "OXXO" };
+    const merged = mergeStatements([file("nu.csv", [oxxo, oxxo]), file("nu_copia.csv", [oxxo])]);
+    expect(merged.transactions).toHaveLength(2);
+    expect(merged.duplicates).toHaveLength(1);
+  });
+});
+
+describe("similarDescriptions", () => {
+  it("matches truncated merchant names but not different merchants", () => {
+    expect(similarDescriptions("NETFLIX.COM", "NETFLIX COM MX")).toBe(true);
+    expect(similarDescriptions("", "OXXO")).toBe(true);
+    expect(similarDescriptions("OXXO INSURGENTES", "SORIANA INSURGENTES SUR")).toBe(false);
+  });
+});
+
+describe("accountLabel", () => {
+  it("drops only the last extension", () => {
+    expect(accountLabel("estado_cuenta.bbva.enero.csv")).toBe("estado_cuenta.bbva.enero");
+    expect(accountLabel("nu")).toBe("nu");
+  });
+});
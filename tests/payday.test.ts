@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { categorizeTransactions } from "../lib/categorizer";
+import type { Transaction } from "../lib/parser";
+import { detectPaySchedule, paydaysBetween } from "../lib/payday";
+
+const deposits = (description: string, amount: number, dates: string[]): Transaction[] =>
+  dates.map(date => ({ date, amount, description }));
+
+const schedule = (txns: Transaction[]) => detectPaySchedule(categorizeTransactions(txns));
+
+describe("detectPaySchedule", () => {
+  it.each([
+    ["weekly", ["2026-03-06", "2026-03-13", "2026-03-20", "2026-03-27"]],
+    ["biweekly", ["2026-03-06", "2026-03-20", "2026-04-03"]],
+    ["semimonthly", ["2026-03-13", "2026-03-30", "2026-04-15"]],
+    ["monthly", ["2026-03-31", "2026-04-30"]],
+  ])("reads a %s cadence", (cadence, dates) => {
+    expect(schedule(deposits("NOMINA EMPRESA SA", 8000, dates))?.cadence).toBe(cadence);
+  });
+
+  it("prefers the nómina over a bigger recurring transfer", () => {
+    const found = schedule([
+      ...deposits("NOMINA EMPRESA SA", 8000, ["2026-03-13", "2026-03-30"]),
+      ...deposits("SPEI RECIBIDO RENTA LOCAL", 15000, ["2026-03-01", "2026-04-01"]),
+    ]);
+    expect(found?.description).toBe("NOMINA EMPRESA SA");
+  });
+
+  it("needs two deposits unless they say nómina", () => {
+    expect(schedule(deposits("SPEI RECIBIDO JUAN PEREZ", 3000, ["2026-03-15"]))).toBeNull();
+    expect(schedule(deposits("PAGO NOMINA", 8000, ["2026-03-15"]))?.cadence).toBe("semimonthly");
+  });
+});
+
+describe("paydaysBetween", () => {
+  it("predicts the paydays a biweekly schedule hasn't shown yet", () => {
+    const found = schedule(deposits("NOMINA EMPRESA SA", 8000, ["2026-03-06", "2026-03-20"]));
+    expect(paydaysBetween(found, "2026-03-01", "2026-04-10")).toEqual(["2026-03-06", "2026-03-20", "2026-04-03"]);
+  });
+
+  it("moves a month-end payday off the weekend", () => {
+    const found = schedule(deposits("NOMINA EMPRESA SA", 16000, ["2026-03-31", "2026-04-30"]));
+    expect(paydaysBetween(found, "2026-05-01", "2026-06-30")).toEqual(["2026-05-29", "2026-06-30"]);
+  });
+
+  it("falls back to the 15th, the 30th and the last day of the month", () => {
+    expect(paydaysBetween(null, "2026-03-01", "2026-04-30")).toEqual([
+      "2026-03-15", "2026-03-30", "2026-03-31", "2026-04-15", "2026-04-30",
+    ]);
+    expect(paydaysBetween(null, "2026-02-01", "2026-02-28")).toEqual(["2026-02-15", "2026-02-28"]);
+  });
+});
@@ -0,0 +1,39 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { LOCAL_MIN_CONFIDENCE, extractPdfTransactions, groupIntoLines } from "../lib/pdf-layout";
+import type { PdfTextItem } from "../lib/pdf-layout";
+import type { Transaction } from "../lib/parser";
+
+// fixtures/pdf-layout holds one page of pdf.js text runs per file, flattened
+// to {str, x, y, width}, and whether the local extractor should keep it
+interface LayoutFixture {
+  description: string;
+  local: boolean;
+  items: { str: string; x: number; y: number; width: number }[];
+  transactions?: Transaction[];
+}
+
+const dir = path.join(__dirname, "..", "fixtures", "pdf-layout");
+
+describe("extractPdfTransactions", () => {
+  for (const file of readdirSync(dir).filter(f => f.endsWith(".json"))) {
+    const fixture: LayoutFixture = JSON.parse(readFileSync(path.join(dir, file), "utf-8"));
+
+    it(`${file}: ${fixture.description}`, () => {
+      const items: PdfTextItem[] = fixture.items.map(i => ({
+        str: i.str, width: i.width, transform: [1, 0, 0, 1, i.x, i.y],
+      }));
+      const result = extractPdfTransactions(groupIntoLines(items, 1));
+      expect(result.confidence >= LOCAL_MIN_CONFIDENCE).toBe(fixture.local);
+      if (fixture.transactions) expect(result.transactions).toEqual(fixture.transactions);
+    });
+  }
+
+  it("has nothing to go on without a table header", () => {
+    const items: PdfTextItem[] = [
+      { str: "02/ENE OXXO REFORMA 89.50", width: 200, transform: [1, 0, 0, 1, 40, 700] },
+    ];
+    expect(extractPdfTransactions(groupIntoLines(items, 1)).confidence).toBe(0);
+  });
+});
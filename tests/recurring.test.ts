@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { categorizeTransactions } from "../lib/categorizer";
+import { detectSubscriptions, toChargeRecords } from "../lib/recurring";
+
+describe("toChargeRecords", () => {
+  it("never saves a one-off purchase", () => {
+    const txns = categorizeTransactions([
+      { date: "2026-03-04", amount: -1899, description: "LIVERPOOL PERISUR" },
+      { date: "2026-03-09", amount: -245, description: "FARMACIA DEL AHORRO" },
+    ]);
+    expect(toChargeRecords(txns)).toEqual([]);
+  });
+
+  it("skips merchants billed at varying amounts", () => {
+    const txns = categorizeTransactions([
+      { date: "2026-03-04", amount: -80, description: "TAQUERIA EL PASTOR" },
+      { date: "2026-03-11", amount: -260, description: "TAQUERIA EL PASTOR" },
+    ]);
+    expect(toChargeRecords(txns)).toEqual([]);
+  });
+
+  it("keeps repeated charges, subscriptions and merchants saved before", () => {
+    const txns = categorizeTransactions([
+      { date: "2026-03-02", amount: -120, description: "GIMNASIO BARRIO" },
+      { date: "2026-03-02", amount: -219, description: "NETFLIX.COM" },
+      { date: "2026-03-05", amount: -99, description: "PARQUIMETRO CENTRO" },
+      { date: "2026-03-12", amount: -99, description: "PARQUIMETRO CENTRO" },
+      { date: "2026-03-15", amount: -450, description: "TELCEL RECARGA" },
+    ]);
+    const known = [{ merchant: "telcel recarga", amount: 450, date: "2026-02-15", count: 1 }];
+    expect(toChargeRecords(txns, known).map(r => [r.merchant, r.count])).toEqual([
+      ["gimnasio barrio", 1],
+      ["netflix", 1],
+      ["parquimetro centro", 2],
+      ["telcel recarga", 1],
+    ]);
+  });
+});
+
+describe("detectSubscriptions", () => {
+  it("finds a monthly charge against last month's record and flags the new price", () => {
+    const january = toChargeRecords(
+      categorizeTransactions([{ date: "2026-01-05", amount: -219, description: "NETFLIX.COM" }])
+    );
+    const february = categorizeTransactions([{ date: "2026-02-05", amount: -249, description: "NETFLIX.COM" }]);
+    const [sub] = detectSubscriptions(february, january);
+    expect(sub).toMatchObject({ merchant: "netflix", cadence: "monthly", amount: 249, previousAmount: 219 });
+  });
+});
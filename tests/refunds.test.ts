@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { categorizeTransactions } from "../lib/categorizer";
+import type { Transaction } from "../lib/parser";
+import { pairRefunds } from "../lib/refunds";
+import { detectMoneyMoves } from "../lib/transfers";
+
+const pairs = (txns: Transaction[]) => {
+  const categorized = categorizeTransactions(txns);
+  return pairRefunds(categorized, detectMoneyMoves(categorized));
+};
+
+describe("pairRefunds", () => {
+  it("pairs a refund with the earlier purchase from the same merchant", () => {
+    expect(pairs([
+      { date: "2026-03-02", amount: -1499, description: "AMAZON MX MARKETPLACE" },
+      { date: "2026-03-12", amount: 1499, description: "DEVOLUCION AMAZON" },
+    ])).toEqual([undefined, 0]);
+  });
+
+  it("prefers the exact amount, then the latest charge", () => {
+    expect(pairs([
+      { date: "2026-03-01", amount: -300, description: "LIVERPOOL PERISUR" },
+      { date: "2026-03-05", amount: -500, description: "LIVERPOOL PERISUR" },
+      { date: "2026-03-08", amount: -600, description: "LIVERPOOL PERISUR" },
+      { date: "2026-03-20", amount: 300, description: "DEVOLUCION LIVERPOOL PERISUR" },
+      { date: "2026-03-21", amount: 250, description: "DEVOLUCION LIVERPOOL PERISUR" },
+    ])).toEqual([undefined, undefined, undefined, 0, 2]);
+  });
+
+  it("lets partial refunds share a purchase up to its amount", () => {
+    expect(pairs([
+      { date: "2026-03-02", amount: -1000, description: "AMAZON MX" },
+      { date: "2026-03-10", amount: 600, description: "REEMBOLSO AMAZON MX" },
+      { date: "2026-03-11", amount: 600, description: "REEMBOLSO AMAZON MX" },
+    ])).toEqual([undefined, 0, undefined]);
+  });
+
+  it("never pairs a transfer back from someone you paid", () => {
+    expect(pairs([
+      { date: "2026-03-02", amount: -400, description: "SPEI ENVIADO ANA LOPEZ" },
+      { date: "2026-03-04", amount: 400, description: "SPEI RECIBIDO ANA LOPEZ" },
+    ])).toEqual([undefined, undefined]);
+  });
+
+  it("ignores refunds older than 90 days or before the purchase", () => {
+    expect(pairs([
+      { date: "2026-01-02", amount: -799, description: "AMAZON MX" },
+      { date: "2026-04-15", amount: 799, description: "DEVOLUCION AMAZON MX" },
+    ])).toEqual([undefined, undefined]);
+    expect(pairs([
+      { date: "2026-03-10", amount: 799, description: "DEVOLUCION AMAZON MX" },
+      { date: "2026-03-12", amount: -799, description: "AMAZON MX" },
+    ])).toEqual([undefined, undefined]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { categorizeTransactions } from "../lib/categorizer";
+import type { Transaction } from "../lib/parser";
+import { detectMoneyMoves, isCardStatement } from "../lib/transfers";
+
+const moves = (txns: Transaction[]) => detectMoneyMoves(categorizeTransactions(txns)).map(m => m?.kind ?? null);
+
+describe("detectMoneyMoves", () => {
+  it("pairs a transfer between two of your files", () => {
+    expect(moves([
+      { date: "2026-03-02", amount: -2000, description: "SPEI ENVIADO A CUENTA NU", account: "f1" },
+      { date: "2026-03-02", amount: 2000, description: "DEPOSITO SPEI RECIBIDO", account: "f2" },
+    ])).toEqual(["self_transfer", "self_transfer"]);
+  });
+
+  it("pairs a card payment with the card statement's credit", () => {
+    expect(moves([
+      { date: "2026-03-05", amount: -4500, description: "PAGO TDC BANORTE", account: "f1" },
+      { date: "2026-03-06", amount: 4500, description: "SU PAGO GRACIAS", account: "f2" },
+    ])).toEqual(["card_payment", "card_payment"]);
+  });
+
+  it("leaves a purchase alone next to a transfer of the same amount", () => {
+    expect(moves([
+      { date: "2026-03-10", amount: -500, description: "UBER TRIP", account: "f1" },
+      { date: "2026-03-09", amount: 500, description: "SPEI RECIBIDO JUAN PEREZ", account: "f2" },
+    ])).toEqual([null, null]);
+  });
+
+  it("needs both sides to say transfer across files", () => {
+    expect(moves([
+      { date: "2026-03-10", amount: -800, description: "SPEI ENVIADO ANA LOPEZ", account: "f1" },
+      { date: "2026-03-10", amount: 800, description: "NOMINA EMPRESA SA", account: "f2" },
+    ])).toEqual([null, null]);
+  });
+
+  it("pairs a reversal with the charge it undoes", () => {
+    expect(moves([
+      { date: "2026-03-03", amount: -1200, description: "LIVERPOOL PERISUR" },
+      { date: "2026-03-08", amount: 1200, description: "REVERSO LIVERPOOL PERISUR" },
+    ])).toEqual(["reversal", "reversal"]);
+  });
+});
+
+describe("isCardStatement", () => {
+  it("spots the payment credit on a card statement", () => {
+    expect(isCardStatement([
+      { date: "2026-03-06", amount: 4500, description: "SU PAGO GRACIAS" },
+      { date: "2026-03-08", amount: -320, description: "UBER EATS MX" },
+    ])).toBe(true);
+  });
+
+  it("leaves a debit account alone", () => {
+    expect(isCardStatement([
+      { date: "2026-03-15", amount: 12000, description: "NOMINA EMPRESA SA" },
+      { date: "2026-03-16", amount: -4500, description: "PAGO TDC BANORTE" },
+    ])).toBe(false);
+  });
+});
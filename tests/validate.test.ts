@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { findStatementTotals } from "../lib/validate";
+
+describe("findStatementTotals", () => {
+  it("skips a date between the label and the amount", () => {
+    expect(findStatementTotals("Saldo anterior al 31.12.2025 1,000.00\nSaldo final al 31/01/2026 $2,350.50")).toEqual({
+      openingBalance: 1000,
+      closingBalance: 2350.5,
+    });
+  });
+
+  it("reads totals with comma decimals", () => {
+    const text = [
+      "Saldo inicial 15.000,00",
+      "Total de cargos 3.200,50",
+      "Total de abonos 1.000,00",
+      "Nuevo saldo 12.799,50",
+    ].join("\n");
+    expect(findStatementTotals(text)).toEqual({
+      openingBalance: 15000,
+      totalDebits: 3200.5,
+      totalCredits: 1000,
+      closingBalance: 12799.5,
+    });
+  });
+
+  it("passes over a label with no amount on its line", () => {
+    expect(findStatementTotals("Saldo anterior\nResumen\nSaldo anterior 500.00").openingBalance).toBe(500);
+  });
+});